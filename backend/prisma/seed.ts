@@ -6,10 +6,29 @@ async function main() {
   console.log('🌱 Starting database seeding...');
 
   // Clear existing data
+  await prisma.lessonVersion.deleteMany();
+  await prisma.feedReaction.deleteMany();
+  await prisma.feedEvent.deleteMany();
+  await prisma.leagueMembership.deleteMany();
+  await prisma.leagueCohort.deleteMany();
+  await prisma.follow.deleteMany();
+  await prisma.experienceEvent.deleteMany();
+  await prisma.streakFreezeUsage.deleteMany();
+  await prisma.activityDay.deleteMany();
+  await prisma.speechRecording.deleteMany();
+  await prisma.mistake.deleteMany();
+  await prisma.reviewItem.deleteMany();
+  await prisma.placementTest.deleteMany();
+  await prisma.exerciseAttempt.deleteMany();
+  await prisma.lessonAttempt.deleteMany();
   await prisma.achievement.deleteMany();
   await prisma.progress.deleteMany();
   await prisma.exercise.deleteMany();
+  await prisma.mediaAsset.deleteMany();
   await prisma.lesson.deleteMany();
+  await prisma.skill.deleteMany();
+  await prisma.unit.deleteMany();
+  await prisma.section.deleteMany();
   await prisma.enrollment.deleteMany();
   await prisma.user.deleteMany();
   await prisma.language.deleteMany();
@@ -157,6 +176,7 @@ async function main() {
         type: 'translation',
         question: 'Translate "Nice to meet you" to Spanish',
         correctAnswer: 'Mucho gusto',
+        acceptedAnswers: ['Encantado', 'Encantada'],
         explanation: '"Mucho gusto" is the standard way to say "Nice to meet you" in Spanish.',
         order: 4,
         points: 15
@@ -0,0 +1,5 @@
+import { PrismaClient } from '@prisma/client';
+
+// Shared Prisma client. Lives outside index.ts so scripts can use services
+// without starting the HTTP server.
+export const prisma = new PrismaClient();
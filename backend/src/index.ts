@@ -5,7 +5,7 @@ import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from './db';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -14,6 +14,12 @@ import languageRoutes from './routes/languages';
 import lessonRoutes from './routes/lessons';
 import progressRoutes from './routes/progress';
 import achievementRoutes from './routes/achievements';
+import practiceRoutes from './routes/practice';
+import leagueRoutes from './routes/leagues';
+import profileRoutes from './routes/profiles';
+import feedRoutes from './routes/feed';
+import adminRoutes from './routes/admin';
+import mediaRoutes from './routes/media';
 
 // Load environment variables
 dotenv.config();
@@ -21,8 +27,8 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 5000;
 
-// Initialize Prisma
-export const prisma = new PrismaClient();
+// Re-exported for routes
+export { prisma };
 
 // Security middleware
 app.use(helmet({
@@ -82,6 +88,12 @@ app.use('/api/languages', languageRoutes);
 app.use('/api/lessons', lessonRoutes);
 app.use('/api/progress', progressRoutes);
 app.use('/api/achievements', achievementRoutes);
+app.use('/api/practice', practiceRoutes);
+app.use('/api/leagues', leagueRoutes);
+app.use('/api/profiles', profileRoutes);
+app.use('/api/feed', feedRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/media', mediaRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
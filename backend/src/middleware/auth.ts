@@ -9,9 +9,16 @@ export interface AuthRequest extends Request {
     username: string;
     level: number;
     experience: number;
+    role: string;
   };
 }
 
+export const ROLES = ['learner', 'editor', 'admin'];
+
+// Roles are ordered: each one includes the permissions of those before it
+export const hasRole = (role: string, required: string) =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required);
+
 export const authenticateToken = async (
   req: AuthRequest,
   res: Response,
@@ -57,7 +64,8 @@ export const authenticateToken = async (
         level: true,
         experience: true,
         streak: true,
-        avatar: true
+        avatar: true,
+        role: true
       }
     });
 
@@ -109,7 +117,8 @@ export const optionalAuth = async (
         level: true,
         experience: true,
         streak: true,
-        avatar: true
+        avatar: true,
+        role: true
       }
     });
 
@@ -123,3 +132,20 @@ export const optionalAuth = async (
     next();
   }
 };
+
+// Must run after authenticateToken
+export const requireRole = (role: string) => (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Access token required' });
+  }
+
+  if (!hasRole(req.user.role, role)) {
+    return res.status(403).json({ error: 'Insufficient permissions' });
+  }
+
+  next();
+};
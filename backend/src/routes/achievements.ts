@@ -1,6 +1,9 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
+import { query, validationResult } from 'express-validator';
 import { prisma } from '../index';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, optionalAuth, AuthRequest } from '../middleware/auth';
+import { getAchievementProgress } from '../services/achievements';
+import { getLeaderboard, LEADERBOARD_PERIODS, LeaderboardPeriod } from '../services/leaderboards';
 
 const router = Router();
 
@@ -80,111 +83,39 @@ router.get('/stats', authenticateToken, async (req: AuthRequest, res: Response)
   }
 });
 
-// Get available achievements (not yet unlocked)
-router.get('/available', authenticateToken, async (req: AuthRequest, res: Response) => {
+// Get the achievement catalog with the user's progress on every tier
+router.get('/catalog', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user!.id;
-
-    // Get user's current stats
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        level: true,
-        experience: true,
-        streak: true
-      }
-    });
+    const catalog = await getAchievementProgress(req.user!.id);
 
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
-
-    // Get user's enrollments
-    const enrollments = await prisma.enrollment.findMany({
-      where: { userId, isActive: true },
-      include: {
-        progress: {
-          select: {
-            completed: true,
-            score: true
-          }
-        }
-      }
-    });
-
-    // Calculate potential achievements
-    const availableAchievements = [];
-
-    // Level-based achievements
-    const nextLevel = user.level + 1;
-    if (user.level < 10) {
-      availableAchievements.push({
-        type: 'level_up',
-        title: `Reach Level ${nextLevel}`,
-        description: `Continue learning to reach level ${nextLevel}`,
-        icon: '🎯',
-        progress: user.level,
-        target: nextLevel,
-        progressPercentage: (user.level / nextLevel) * 100
-      });
-    }
-
-    // Streak achievements
-    const streakTargets = [7, 14, 30, 60, 100];
-    const nextStreakTarget = streakTargets.find(target => target > user.streak);
-    if (nextStreakTarget) {
-      availableAchievements.push({
-        type: 'streak',
-        title: `${nextStreakTarget} Day Streak`,
-        description: `Maintain your learning streak for ${nextStreakTarget} days`,
-        icon: '🔥',
-        progress: user.streak,
-        target: nextStreakTarget,
-        progressPercentage: (user.streak / nextStreakTarget) * 100
-      });
-    }
-
-    // Language completion achievements
-    const totalLessons = enrollments.reduce((sum, enrollment) => 
-      sum + enrollment.progress.length, 0
-    );
-    const completedLessons = enrollments.reduce((sum, enrollment) => 
-      sum + enrollment.progress.filter(p => p.completed).length, 0
-    );
-
-    if (totalLessons > 0) {
-      const lessonTargets = [10, 25, 50, 100];
-      const nextLessonTarget = lessonTargets.find(target => target > completedLessons);
-      if (nextLessonTarget) {
-        availableAchievements.push({
-          type: 'lesson_complete',
-          title: `Complete ${nextLessonTarget} Lessons`,
-          description: `Complete ${nextLessonTarget} lessons to unlock this achievement`,
-          icon: '📚',
-          progress: completedLessons,
-          target: nextLessonTarget,
-          progressPercentage: (completedLessons / nextLessonTarget) * 100
-        });
-      }
-    }
+    res.json({ catalog });
+  } catch (error) {
+    console.error('Get achievement catalog error:', error);
+    res.status(500).json({ error: 'Failed to fetch achievement catalog' });
+  }
+});
 
-    // Perfect score achievements
-    const perfectScores = enrollments.reduce((sum, enrollment) => 
-      sum + enrollment.progress.filter(p => p.completed && p.score >= 90).length, 0
-    );
-    const perfectScoreTargets = [5, 10, 20, 50];
-    const nextPerfectScoreTarget = perfectScoreTargets.find(target => target > perfectScores);
-    if (nextPerfectScoreTarget) {
-      availableAchievements.push({
-        type: 'perfect_score',
-        title: `${nextPerfectScoreTarget} Perfect Scores`,
-        description: `Get ${nextPerfectScoreTarget} perfect scores in lessons`,
-        icon: '⭐',
-        progress: perfectScores,
-        target: nextPerfectScoreTarget,
-        progressPercentage: (perfectScores / nextPerfectScoreTarget) * 100
+// Get available achievements (not yet unlocked)
+router.get('/available', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const catalog = await getAchievementProgress(req.user!.id);
+
+    // Next locked tier of every definition
+    const availableAchievements = catalog
+      .filter(definition => definition.nextTier)
+      .map(definition => {
+        const tier = definition.nextTier!;
+        return {
+          key: tier.key,
+          type: definition.type,
+          title: tier.title,
+          description: tier.description,
+          icon: definition.icon,
+          progress: definition.current,
+          target: tier.target,
+          progressPercentage: Math.min((definition.current / tier.target) * 100, 100)
+        };
       });
-    }
 
     res.json({ availableAchievements });
   } catch (error) {
@@ -193,38 +124,48 @@ router.get('/available', authenticateToken, async (req: AuthRequest, res: Respon
   }
 });
 
-// Get achievement leaderboard (optional - for social features)
-router.get('/leaderboard', async (req: Request, res: Response) => {
+// Get leaderboard: all-time, weekly or monthly XP, per-language progress,
+// optionally limited to the people the caller follows
+router.get('/leaderboard', optionalAuth, [
+  query('period').optional().isIn(LEADERBOARD_PERIODS),
+  query('languageId').optional().isString(),
+  query('scope').optional().isIn(['global', 'friends']),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+], async (req: AuthRequest, res: Response) => {
   try {
-    const topUsers = await prisma.user.findMany({
-      select: {
-        username: true,
-        level: true,
-        experience: true,
-        streak: true,
-        _count: {
-          select: {
-            achievements: true
-          }
-        }
-      },
-      orderBy: [
-        { experience: 'desc' },
-        { streak: 'desc' }
-      ],
-      take: 10
-    });
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        error: 'Validation failed', 
+        details: errors.array() 
+      });
+    }
 
-    const leaderboard = topUsers.map((user, index) => ({
-      rank: index + 1,
-      username: user.username,
-      level: user.level,
-      experience: user.experience,
-      streak: user.streak,
-      achievementCount: user._count.achievements
-    }));
+    const period = (req.query.period as LeaderboardPeriod) || 'all';
+    const languageId = req.query.languageId as string | undefined;
+    const scope = (req.query.scope as string) || 'global';
+    const limit = (req.query.limit as unknown as number) || 10;
+    const userId = req.user?.id;
 
-    res.json({ leaderboard });
+    if (scope === 'friends' && !userId) {
+      return res.status(401).json({ error: 'Access token required' });
+    }
+
+    const board = await getLeaderboard({
+      period,
+      languageId,
+      friendsOf: scope === 'friends' ? userId : undefined,
+      userId,
+      limit,
+      neighbours: 2
+    });
+
+    res.json({
+      period: languageId ? 'all' : period,
+      languageId: languageId || null,
+      scope,
+      ...board
+    });
   } catch (error) {
     console.error('Get leaderboard error:', error);
     res.status(500).json({ error: 'Failed to fetch leaderboard' });
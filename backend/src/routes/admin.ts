@@ -0,0 +1,1133 @@
+import express, { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { LessonVersion } from '@prisma/client';
+import { prisma } from '../index';
+import { authenticateToken, requireRole, AuthRequest, ROLES } from '../middleware/auth';
+import { checkExerciseContent, describePairs, EXERCISE_TYPES, ExercisePair } from '../services/grading';
+import { DIFFICULTIES } from '../services/unlocking';
+import {
+  CourseFileFormat,
+  parseCourseFile,
+  serializeCourseFile,
+  validateCourseFile
+} from '../services/courseFile';
+import { exportCourse, importCourse } from '../services/courseImport';
+import { getCurriculum } from '../services/curriculum';
+import { AUDIO_TYPES, mediaUrl, saveAudio } from '../services/media';
+import { generateLanguageSpeech, generateLessonSpeech, SpeechSummary } from '../services/speech';
+import {
+  editDraft,
+  getOrCreateDraft,
+  LessonContent,
+  newExerciseId,
+  publishDraft,
+  rollbackLesson
+} from '../services/lessonVersions';
+
+const router = Router();
+
+// Every content endpoint is for editors (and admins)
+router.use(authenticateToken, requireRole('editor'));
+
+const sendValidationErrors = (req: AuthRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+
+  res.status(400).json({
+    error: 'Validation failed',
+    details: errors.array()
+  });
+  return true;
+};
+
+// A reorder request must list every item of the parent exactly once
+const isSameIdSet = (requested: string[], existing: string[]) =>
+  requested.length === existing.length &&
+  new Set(requested).size === requested.length &&
+  existing.every(id => requested.includes(id));
+
+const orderValidation = (field: string) => [
+  body(field).isArray({ min: 1 }),
+  body(`${field}.*`).isString().notEmpty()
+];
+
+// Languages
+
+// Get all languages, including inactive ones
+router.get('/languages', async (req: AuthRequest, res: Response) => {
+  try {
+    const languages = await prisma.language.findMany({
+      include: {
+        _count: {
+          select: { lessons: true, enrollments: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({ languages });
+  } catch (error) {
+    console.error('Admin get languages error:', error);
+    res.status(500).json({ error: 'Failed to fetch languages' });
+  }
+});
+
+// Create a language
+router.post('/languages', [
+  body('name').trim().isLength({ min: 1, max: 50 }),
+  body('code').trim().isLength({ min: 2, max: 10 }),
+  body('flag').optional().isString(),
+  body('description').optional().isString(),
+  body('isActive').optional().isBoolean().toBoolean()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { name, code, flag, description, isActive } = req.body;
+
+    const existing = await prisma.language.findFirst({
+      where: { OR: [{ name }, { code }] }
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A language with this name or code already exists' });
+    }
+
+    const language = await prisma.language.create({
+      data: { name, code, flag, description, isActive }
+    });
+
+    res.status(201).json({ message: 'Language created', language });
+  } catch (error) {
+    console.error('Create language error:', error);
+    res.status(500).json({ error: 'Failed to create language' });
+  }
+});
+
+// Update a language, including activating or deactivating it
+router.put('/languages/:id', [
+  body('name').optional().trim().isLength({ min: 1, max: 50 }),
+  body('code').optional().trim().isLength({ min: 2, max: 10 }),
+  body('flag').optional({ values: 'null' }).isString(),
+  body('description').optional({ values: 'null' }).isString(),
+  body('isActive').optional().isBoolean().toBoolean()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+    const { name, code, flag, description, isActive } = req.body;
+
+    const language = await prisma.language.findUnique({ where: { id } });
+    if (!language) {
+      return res.status(404).json({ error: 'Language not found' });
+    }
+
+    if (name !== undefined || code !== undefined) {
+      const clash = await prisma.language.findFirst({
+        where: {
+          id: { not: id },
+          OR: [
+            ...(name !== undefined ? [{ name }] : []),
+            ...(code !== undefined ? [{ code }] : [])
+          ]
+        }
+      });
+      if (clash) {
+        return res.status(400).json({ error: 'A language with this name or code already exists' });
+      }
+    }
+
+    const updated = await prisma.language.update({
+      where: { id },
+      data: { name, code, flag, description, isActive }
+    });
+
+    res.json({ message: 'Language updated', language: updated });
+  } catch (error) {
+    console.error('Update language error:', error);
+    res.status(500).json({ error: 'Failed to update language' });
+  }
+});
+
+// Delete a language nobody has enrolled in; deactivate it otherwise
+router.delete('/languages/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const language = await prisma.language.findUnique({
+      where: { id },
+      include: { _count: { select: { enrollments: true } } }
+    });
+    if (!language) {
+      return res.status(404).json({ error: 'Language not found' });
+    }
+
+    if (language._count.enrollments > 0) {
+      return res.status(400).json({ error: 'Language has enrolled learners; deactivate it instead' });
+    }
+
+    await prisma.language.delete({ where: { id } });
+
+    res.json({ message: 'Language deleted' });
+  } catch (error) {
+    console.error('Delete language error:', error);
+    res.status(500).json({ error: 'Failed to delete language' });
+  }
+});
+
+// Course structure
+
+// Get a language's sections, units, skills and lessons, including inactive ones
+router.get('/languages/:languageId/curriculum', async (req: AuthRequest, res: Response) => {
+  try {
+    const curriculum = await getCurriculum(req.params.languageId, { includeInactive: true });
+
+    res.json(curriculum);
+  } catch (error) {
+    console.error('Admin get curriculum error:', error);
+    res.status(500).json({ error: 'Failed to fetch curriculum' });
+  }
+});
+
+const structureValidation = (parentField: string | null, optional: boolean) => [
+  ...(parentField ? [body(parentField).isString().notEmpty()] : []),
+  (optional ? body('title').optional() : body('title')).trim().isLength({ min: 1, max: 100 }),
+  body('description').optional({ values: 'null' }).isString(),
+  body('icon').optional({ values: 'null' }).isString(),
+  body('order').optional().isInt({ min: 1 }).toInt(),
+  body('isActive').optional().isBoolean().toBoolean()
+];
+
+// Create a section, appended to the end of its language unless an order is given
+router.post('/sections', structureValidation('languageId', false), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { languageId, title, description, order, isActive } = req.body;
+
+    const language = await prisma.language.findUnique({ where: { id: languageId } });
+    if (!language) {
+      return res.status(404).json({ error: 'Language not found' });
+    }
+
+    const last = await prisma.section.findFirst({
+      where: { languageId },
+      orderBy: { order: 'desc' },
+      select: { order: true }
+    });
+
+    const section = await prisma.section.create({
+      data: { languageId, title, description, isActive, order: order ?? (last ? last.order + 1 : 1) }
+    });
+
+    res.status(201).json({ message: 'Section created', section });
+  } catch (error) {
+    console.error('Create section error:', error);
+    res.status(500).json({ error: 'Failed to create section' });
+  }
+});
+
+// Update a section, including reordering or deactivating it
+router.put('/sections/:id', structureValidation(null, true), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+    const { title, description, order, isActive } = req.body;
+
+    const section = await prisma.section.findUnique({ where: { id } });
+    if (!section) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+
+    const updated = await prisma.section.update({
+      where: { id },
+      data: { title, description, order, isActive }
+    });
+
+    res.json({ message: 'Section updated', section: updated });
+  } catch (error) {
+    console.error('Update section error:', error);
+    res.status(500).json({ error: 'Failed to update section' });
+  }
+});
+
+// Delete a section with its units and skills. Their lessons are kept and
+// become unassigned.
+router.delete('/sections/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { count } = await prisma.section.deleteMany({ where: { id: req.params.id } });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+
+    res.json({ message: 'Section deleted' });
+  } catch (error) {
+    console.error('Delete section error:', error);
+    res.status(500).json({ error: 'Failed to delete section' });
+  }
+});
+
+// Create a unit, appended to the end of its section unless an order is given
+router.post('/units', structureValidation('sectionId', false), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { sectionId, title, description, order, isActive } = req.body;
+
+    const section = await prisma.section.findUnique({ where: { id: sectionId } });
+    if (!section) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+
+    const last = await prisma.unit.findFirst({
+      where: { sectionId },
+      orderBy: { order: 'desc' },
+      select: { order: true }
+    });
+
+    const unit = await prisma.unit.create({
+      data: { sectionId, title, description, isActive, order: order ?? (last ? last.order + 1 : 1) }
+    });
+
+    res.status(201).json({ message: 'Unit created', unit });
+  } catch (error) {
+    console.error('Create unit error:', error);
+    res.status(500).json({ error: 'Failed to create unit' });
+  }
+});
+
+// Update a unit, including reordering or deactivating it
+router.put('/units/:id', structureValidation(null, true), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+    const { title, description, order, isActive } = req.body;
+
+    const unit = await prisma.unit.findUnique({ where: { id } });
+    if (!unit) {
+      return res.status(404).json({ error: 'Unit not found' });
+    }
+
+    const updated = await prisma.unit.update({
+      where: { id },
+      data: { title, description, order, isActive }
+    });
+
+    res.json({ message: 'Unit updated', unit: updated });
+  } catch (error) {
+    console.error('Update unit error:', error);
+    res.status(500).json({ error: 'Failed to update unit' });
+  }
+});
+
+// Delete a unit with its skills. Its lessons and checkpoint are kept and
+// become unassigned.
+router.delete('/units/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { count } = await prisma.unit.deleteMany({ where: { id: req.params.id } });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Unit not found' });
+    }
+
+    res.json({ message: 'Unit deleted' });
+  } catch (error) {
+    console.error('Delete unit error:', error);
+    res.status(500).json({ error: 'Failed to delete unit' });
+  }
+});
+
+// Create a skill, appended to the end of its unit unless an order is given
+router.post('/skills', structureValidation('unitId', false), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { unitId, title, icon, order, isActive } = req.body;
+
+    const unit = await prisma.unit.findUnique({ where: { id: unitId } });
+    if (!unit) {
+      return res.status(404).json({ error: 'Unit not found' });
+    }
+
+    const last = await prisma.skill.findFirst({
+      where: { unitId },
+      orderBy: { order: 'desc' },
+      select: { order: true }
+    });
+
+    const skill = await prisma.skill.create({
+      data: { unitId, title, icon, isActive, order: order ?? (last ? last.order + 1 : 1) }
+    });
+
+    res.status(201).json({ message: 'Skill created', skill });
+  } catch (error) {
+    console.error('Create skill error:', error);
+    res.status(500).json({ error: 'Failed to create skill' });
+  }
+});
+
+// Update a skill, including reordering or deactivating it
+router.put('/skills/:id', structureValidation(null, true), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+    const { title, icon, order, isActive } = req.body;
+
+    const skill = await prisma.skill.findUnique({ where: { id } });
+    if (!skill) {
+      return res.status(404).json({ error: 'Skill not found' });
+    }
+
+    const updated = await prisma.skill.update({
+      where: { id },
+      data: { title, icon, order, isActive }
+    });
+
+    res.json({ message: 'Skill updated', skill: updated });
+  } catch (error) {
+    console.error('Update skill error:', error);
+    res.status(500).json({ error: 'Failed to update skill' });
+  }
+});
+
+// Delete a skill. Its lessons are kept and become unassigned.
+router.delete('/skills/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { count } = await prisma.skill.deleteMany({ where: { id: req.params.id } });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Skill not found' });
+    }
+
+    res.json({ message: 'Skill deleted' });
+  } catch (error) {
+    console.error('Delete skill error:', error);
+    res.status(500).json({ error: 'Failed to delete skill' });
+  }
+});
+
+// A lesson sits in at most one skill or is one unit's checkpoint, and
+// both must belong to the lesson's language
+const checkPlacement = async (
+  languageId: string,
+  lessonId: string | null,
+  skillId: string | null | undefined,
+  checkpointUnitId: string | null | undefined
+) => {
+  if (skillId && checkpointUnitId) {
+    return 'A lesson is either in a skill or a checkpoint, not both';
+  }
+
+  if (skillId) {
+    const skill = await prisma.skill.findUnique({
+      where: { id: skillId },
+      select: { unit: { select: { section: { select: { languageId: true } } } } }
+    });
+    if (!skill || skill.unit.section.languageId !== languageId) {
+      return 'Skill not found in this language';
+    }
+  }
+
+  if (checkpointUnitId) {
+    const unit = await prisma.unit.findUnique({
+      where: { id: checkpointUnitId },
+      select: {
+        section: { select: { languageId: true } },
+        checkpoint: { select: { id: true } }
+      }
+    });
+    if (!unit || unit.section.languageId !== languageId) {
+      return 'Unit not found in this language';
+    }
+    if (unit.checkpoint && unit.checkpoint.id !== lessonId) {
+      return 'This unit already has a checkpoint';
+    }
+  }
+
+  return null;
+};
+
+// Lessons
+
+// Get all lessons of a language, including inactive ones
+router.get('/languages/:languageId/lessons', async (req: AuthRequest, res: Response) => {
+  try {
+    const lessons = await prisma.lesson.findMany({
+      where: { languageId: req.params.languageId },
+      include: {
+        _count: {
+          select: { exercises: true }
+        }
+      },
+      orderBy: { order: 'asc' }
+    });
+
+    res.json({ lessons });
+  } catch (error) {
+    console.error('Admin get lessons error:', error);
+    res.status(500).json({ error: 'Failed to fetch lessons' });
+  }
+});
+
+// Reorder the lessons of a language
+router.put('/languages/:languageId/lessons/order', orderValidation('lessonIds'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { languageId } = req.params;
+    const lessonIds: string[] = req.body.lessonIds;
+
+    const lessons = await prisma.lesson.findMany({
+      where: { languageId },
+      select: { id: true }
+    });
+
+    if (!isSameIdSet(lessonIds, lessons.map(l => l.id))) {
+      return res.status(400).json({ error: 'lessonIds must list every lesson of the language exactly once' });
+    }
+
+    await prisma.$transaction(
+      lessonIds.map((id, index) =>
+        prisma.lesson.update({ where: { id }, data: { order: index + 1 } })
+      )
+    );
+
+    res.json({ message: 'Lessons reordered' });
+  } catch (error) {
+    console.error('Reorder lessons error:', error);
+    res.status(500).json({ error: 'Failed to reorder lessons' });
+  }
+});
+
+// Create a lesson, appended to the end of its skill (or language) unless
+// an order is given
+router.post('/lessons', [
+  body('languageId').isString().notEmpty(),
+  body('title').trim().isLength({ min: 1, max: 100 }),
+  body('description').optional().isString(),
+  body('difficulty').optional().isIn(DIFFICULTIES),
+  body('skillId').optional().isString(),
+  body('checkpointUnitId').optional().isString(),
+  body('order').optional().isInt({ min: 1 }).toInt(),
+  body('isActive').optional().isBoolean().toBoolean()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { languageId, title, description, difficulty, skillId, checkpointUnitId, order, isActive } = req.body;
+
+    const language = await prisma.language.findUnique({ where: { id: languageId } });
+    if (!language) {
+      return res.status(404).json({ error: 'Language not found' });
+    }
+
+    const placementError = await checkPlacement(languageId, null, skillId, checkpointUnitId);
+    if (placementError) {
+      return res.status(400).json({ error: placementError });
+    }
+
+    // Order counts within the skill, or among lessons outside the structure
+    const last = await prisma.lesson.findFirst({
+      where: skillId ? { skillId } : { languageId, skillId: null, checkpointUnitId: null },
+      orderBy: { order: 'desc' },
+      select: { order: true }
+    });
+
+    const lesson = await prisma.lesson.create({
+      data: {
+        languageId,
+        skillId,
+        checkpointUnitId,
+        title,
+        description,
+        difficulty,
+        isActive,
+        order: order ?? (last ? last.order + 1 : 1)
+      }
+    });
+
+    res.status(201).json({ message: 'Lesson created', lesson });
+  } catch (error) {
+    console.error('Create lesson error:', error);
+    res.status(500).json({ error: 'Failed to create lesson' });
+  }
+});
+
+// Move a lesson to a skill, make it a unit's checkpoint (null for either
+// unassigns it), reorder it or toggle isActive. Content changes go through
+// its draft.
+router.put('/lessons/:id', [
+  body('skillId').optional({ values: 'null' }).isString(),
+  body('checkpointUnitId').optional({ values: 'null' }).isString(),
+  body('order').optional().isInt({ min: 1 }).toInt(),
+  body('isActive').optional().isBoolean().toBoolean()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+    const { skillId, checkpointUnitId, order, isActive } = req.body;
+
+    const lesson = await prisma.lesson.findUnique({ where: { id } });
+    if (!lesson) {
+      return res.status(404).json({ error: 'Lesson not found' });
+    }
+
+    const placementError = await checkPlacement(lesson.languageId, id, skillId, checkpointUnitId);
+    if (placementError) {
+      return res.status(400).json({ error: placementError });
+    }
+
+    // Placing a lesson in one spot takes it out of the other
+    const placement = skillId
+      ? { skillId, checkpointUnitId: null }
+      : checkpointUnitId
+        ? { skillId: null, checkpointUnitId }
+        : { skillId, checkpointUnitId };
+
+    const updated = await prisma.lesson.update({
+      where: { id },
+      data: { ...placement, order, isActive }
+    });
+
+    res.json({ message: 'Lesson updated', lesson: updated });
+  } catch (error) {
+    console.error('Update lesson error:', error);
+    res.status(500).json({ error: 'Failed to update lesson' });
+  }
+});
+
+// Delete a lesson no one has started; deactivate it otherwise
+router.delete('/lessons/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id },
+      include: { _count: { select: { progress: true, attempts: true } } }
+    });
+    if (!lesson) {
+      return res.status(404).json({ error: 'Lesson not found' });
+    }
+
+    if (lesson._count.progress > 0 || lesson._count.attempts > 0) {
+      return res.status(400).json({ error: 'Lesson has learner progress; deactivate it instead' });
+    }
+
+    await prisma.lesson.delete({ where: { id } });
+
+    res.json({ message: 'Lesson deleted' });
+  } catch (error) {
+    console.error('Delete lesson error:', error);
+    res.status(500).json({ error: 'Failed to delete lesson' });
+  }
+});
+
+// Exercises
+
+// Get the live exercises of a lesson, including inactive ones and answers
+router.get('/lessons/:lessonId/exercises', async (req: AuthRequest, res: Response) => {
+  try {
+    const exercises = await prisma.exercise.findMany({
+      where: { lessonId: req.params.lessonId },
+      orderBy: { order: 'asc' }
+    });
+
+    res.json({ exercises });
+  } catch (error) {
+    console.error('Admin get exercises error:', error);
+    res.status(500).json({ error: 'Failed to fetch exercises' });
+  }
+});
+
+// Drafts and versions. Content edits go to the lesson's draft and only
+// reach learners when the draft is published.
+
+const exerciseValidation = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('type').isIn(EXERCISE_TYPES),
+    field('question').trim().notEmpty(),
+    // match_pairs exercises take their answer key from `pairs`
+    field('correctAnswer').if(body('type').not().equals('match_pairs')).isString().notEmpty(),
+    body('key').optional({ values: 'null' }).isString(),
+    body('acceptedAnswers').optional().isArray(),
+    body('acceptedAnswers.*').isString(),
+    body('options').optional().isArray(),
+    body('options.*').isString(),
+    body('tokens').optional().isArray(),
+    body('tokens.*').isString().trim().notEmpty(),
+    body('distractors').optional().isArray(),
+    body('distractors.*').isString().trim().notEmpty(),
+    body('pairs').optional().isArray(),
+    body('pairs.*.left').isString().trim().notEmpty(),
+    body('pairs.*.right').isString().trim().notEmpty(),
+    body('explanation').optional({ values: 'null' }).isString(),
+    body('audioId').optional({ values: 'null' }).isString(),
+    body('slowAudioId').optional({ values: 'null' }).isString(),
+    body('points').optional().isInt({ min: 0 }).toInt(),
+    body('isActive').optional().isBoolean().toBoolean()
+  ];
+};
+
+// Audio ids sent for an exercise must be uploaded media
+const findMissingAudio = async (ids: (string | null | undefined)[]) => {
+  const wanted = ids.filter((id): id is string => !!id);
+  const found = await prisma.mediaAsset.count({ where: { id: { in: wanted } } });
+  return found < new Set(wanted).size;
+};
+
+const sendDraftResult = (res: Response, result: LessonVersion | { error: string }, message: string) => {
+  if ('error' in result) {
+    const status = result.error.endsWith('not found') ? 404 : 400;
+    return res.status(status).json({ error: result.error });
+  }
+  res.json({ message, draft: result });
+};
+
+// Get the lesson's draft, starting one from the live content if needed
+router.get('/lessons/:id/draft', async (req: AuthRequest, res: Response) => {
+  try {
+    const draft = await getOrCreateDraft(req.params.id, req.user!.id);
+
+    if (!draft) {
+      return res.status(404).json({ error: 'Lesson not found' });
+    }
+
+    res.json({ draft });
+  } catch (error) {
+    console.error('Get draft error:', error);
+    res.status(500).json({ error: 'Failed to fetch draft' });
+  }
+});
+
+// Edit the draft's title, description or difficulty
+router.put('/lessons/:id/draft', [
+  body('title').optional().trim().isLength({ min: 1, max: 100 }),
+  body('description').optional({ values: 'null' }).isString(),
+  body('difficulty').optional().isIn(DIFFICULTIES)
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { title, description, difficulty } = req.body;
+
+    const result = await editDraft(req.params.id, req.user!.id, content => ({
+      ...content,
+      title: title ?? content.title,
+      description: description !== undefined ? description : content.description,
+      difficulty: difficulty ?? content.difficulty
+    }));
+
+    sendDraftResult(res, result, 'Draft updated');
+  } catch (error) {
+    console.error('Update draft error:', error);
+    res.status(500).json({ error: 'Failed to update draft' });
+  }
+});
+
+// Discard the draft
+router.delete('/lessons/:id/draft', async (req: AuthRequest, res: Response) => {
+  try {
+    await prisma.lessonVersion.deleteMany({
+      where: { lessonId: req.params.id, status: 'draft' }
+    });
+
+    res.json({ message: 'Draft discarded' });
+  } catch (error) {
+    console.error('Discard draft error:', error);
+    res.status(500).json({ error: 'Failed to discard draft' });
+  }
+});
+
+// Stored exercises of the lesson, inactive ones included, that use a key
+const findKeyHolders = (lessonId: string, key: unknown) =>
+  typeof key === 'string' && key
+    ? prisma.exercise.findMany({ where: { lessonId, key }, select: { id: true } })
+    : Promise.resolve([]);
+
+// Whether a stored exercise outside the draft still holds the key
+const isKeyHeldOutside = (content: LessonContent, holders: { id: string }[]) =>
+  holders.some(row => !content.exercises.some(e => e.id === row.id));
+
+// Add an exercise to the end of the draft
+router.post('/lessons/:id/draft/exercises', exerciseValidation(false), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const {
+      key = null, type, question, acceptedAnswers = [], options = [], tokens = [],
+      distractors = [], explanation = null, audioId = null, slowAudioId = null,
+      points = 10, isActive = true
+    } = req.body;
+    const pairs: ExercisePair[] = (req.body.pairs ?? []).map(({ left, right }: ExercisePair) => ({ left, right }));
+    const correctAnswer = type === 'match_pairs' ? describePairs(pairs) : req.body.correctAnswer;
+
+    if (await findMissingAudio([audioId, slowAudioId])) {
+      return res.status(400).json({ error: 'Audio not found' });
+    }
+
+    const keyHolders = await findKeyHolders(req.params.id, key);
+
+    const result = await editDraft(req.params.id, req.user!.id, content => {
+      const contentError = checkExerciseContent({
+        type, correctAnswer, acceptedAnswers, options, tokens, distractors, pairs
+      });
+      if (contentError) return { error: contentError.message };
+      if (key && (content.exercises.some(e => e.key === key) || isKeyHeldOutside(content, keyHolders))) {
+        return { error: 'Another exercise in this lesson uses that key' };
+      }
+
+      return {
+        ...content,
+        exercises: [...content.exercises, {
+          id: newExerciseId(),
+          key, type, question, correctAnswer, acceptedAnswers, options, tokens, distractors,
+          pairs, explanation, audioId, slowAudioId, points, isActive
+        }]
+      };
+    });
+
+    sendDraftResult(res, result, 'Exercise added to draft');
+  } catch (error) {
+    console.error('Add draft exercise error:', error);
+    res.status(500).json({ error: 'Failed to add exercise' });
+  }
+});
+
+// Reorder the draft's exercises
+router.put('/lessons/:id/draft/exercises/order', orderValidation('exerciseIds'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const exerciseIds: string[] = req.body.exerciseIds;
+
+    const result = await editDraft(req.params.id, req.user!.id, content =>
+      isSameIdSet(exerciseIds, content.exercises.map(e => e.id))
+        ? {
+            ...content,
+            exercises: exerciseIds.map(id => content.exercises.find(e => e.id === id)!)
+          }
+        : { error: 'exerciseIds must list every exercise of the draft exactly once' }
+    );
+
+    sendDraftResult(res, result, 'Draft exercises reordered');
+  } catch (error) {
+    console.error('Reorder draft exercises error:', error);
+    res.status(500).json({ error: 'Failed to reorder exercises' });
+  }
+});
+
+// Edit a draft exercise: content, options, explanation or active state
+router.put('/lessons/:id/draft/exercises/:exerciseId', exerciseValidation(true), async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { exerciseId } = req.params;
+    const fields = ['key', 'type', 'question', 'correctAnswer', 'acceptedAnswers',
+      'options', 'tokens', 'distractors', 'pairs', 'explanation', 'audioId', 'slowAudioId',
+      'points', 'isActive'] as const;
+
+    if (await findMissingAudio([req.body.audioId, req.body.slowAudioId])) {
+      return res.status(400).json({ error: 'Audio not found' });
+    }
+
+    const keyHolders = await findKeyHolders(req.params.id, req.body.key);
+
+    const result = await editDraft(req.params.id, req.user!.id, content => {
+      const current = content.exercises.find(e => e.id === exerciseId);
+      if (!current) return { error: 'Exercise not found' };
+
+      const updated = { ...current };
+      for (const field of fields) {
+        if (req.body[field] !== undefined) Object.assign(updated, { [field]: req.body[field] });
+      }
+      if (updated.type === 'match_pairs') {
+        updated.pairs = updated.pairs.map(({ left, right }) => ({ left, right }));
+        updated.correctAnswer = describePairs(updated.pairs);
+      }
+
+      const contentError = checkExerciseContent(updated);
+      if (contentError) return { error: contentError.message };
+      const keyTaken = content.exercises.some(e => e.id !== exerciseId && e.key === updated.key) ||
+        isKeyHeldOutside(content, keyHolders.filter(row => row.id !== exerciseId));
+      if (updated.key && keyTaken) {
+        return { error: 'Another exercise in this lesson uses that key' };
+      }
+
+      return {
+        ...content,
+        exercises: content.exercises.map(e => e.id === exerciseId ? updated : e)
+      };
+    });
+
+    sendDraftResult(res, result, 'Draft exercise updated');
+  } catch (error) {
+    console.error('Update draft exercise error:', error);
+    res.status(500).json({ error: 'Failed to update exercise' });
+  }
+});
+
+// Remove an exercise from the draft. Once published it is deactivated,
+// keeping learners' answers to it.
+router.delete('/lessons/:id/draft/exercises/:exerciseId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { exerciseId } = req.params;
+
+    const result = await editDraft(req.params.id, req.user!.id, content =>
+      content.exercises.some(e => e.id === exerciseId)
+        ? { ...content, exercises: content.exercises.filter(e => e.id !== exerciseId) }
+        : { error: 'Exercise not found' }
+    );
+
+    sendDraftResult(res, result, 'Exercise removed from draft');
+  } catch (error) {
+    console.error('Remove draft exercise error:', error);
+    res.status(500).json({ error: 'Failed to remove exercise' });
+  }
+});
+
+// Generated audio follows a content change; a TTS failure shouldn't fail
+// the change itself
+const refreshSpeech = async (generate: () => Promise<SpeechSummary | null>) => {
+  try {
+    return await generate();
+  } catch (error) {
+    console.error('Generate speech error:', error);
+    return null;
+  }
+};
+
+// Publish the draft, replacing the live content in one transaction
+router.post('/lessons/:id/publish', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await publishDraft(req.params.id, req.user!.id);
+
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const speech = await refreshSpeech(() => generateLessonSpeech(req.params.id));
+
+    res.json({ message: `Version ${result.version} published`, version: result, speech });
+  } catch (error) {
+    console.error('Publish lesson error:', error);
+    res.status(500).json({ error: 'Failed to publish lesson' });
+  }
+});
+
+// Get the lesson's published versions, newest first, with author and changes
+router.get('/lessons/:id/versions', async (req: AuthRequest, res: Response) => {
+  try {
+    const versions = await prisma.lessonVersion.findMany({
+      where: { lessonId: req.params.id, status: 'published' },
+      select: {
+        id: true,
+        version: true,
+        changes: true,
+        rolledBackFrom: true,
+        publishedAt: true,
+        author: {
+          select: { id: true, username: true }
+        }
+      },
+      orderBy: { version: 'desc' }
+    });
+
+    res.json({ versions });
+  } catch (error) {
+    console.error('Get lesson versions error:', error);
+    res.status(500).json({ error: 'Failed to fetch versions' });
+  }
+});
+
+// Get the full content of a published version
+router.get('/lessons/:id/versions/:version', async (req: AuthRequest, res: Response) => {
+  try {
+    const version = await prisma.lessonVersion.findUnique({
+      where: {
+        lessonId_version: {
+          lessonId: req.params.id,
+          version: parseInt(req.params.version)
+        }
+      },
+      include: {
+        author: {
+          select: { id: true, username: true }
+        }
+      }
+    });
+
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({ version });
+  } catch (error) {
+    console.error('Get lesson version error:', error);
+    res.status(500).json({ error: 'Failed to fetch version' });
+  }
+});
+
+// Roll the lesson back to an earlier published version
+router.post('/lessons/:id/rollback', [
+  body('version').isInt({ min: 1 }).toInt()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const result = await rollbackLesson(req.params.id, req.body.version, req.user!.id);
+
+    if ('error' in result) {
+      const status = result.error.endsWith('not found') ? 404 : 400;
+      return res.status(status).json({ error: result.error });
+    }
+
+    const speech = await refreshSpeech(() => generateLessonSpeech(req.params.id));
+
+    res.json({
+      message: `Rolled back to version ${req.body.version} as version ${result.version}`,
+      version: result,
+      speech
+    });
+  } catch (error) {
+    console.error('Rollback lesson error:', error);
+    res.status(500).json({ error: 'Failed to roll back lesson' });
+  }
+});
+
+// Media
+
+// Upload an audio clip sent as the raw request body with its audio
+// Content-Type. Attach it to an exercise through the lesson's draft.
+router.post('/media', express.raw({ type: Object.keys(AUDIO_TYPES), limit: '10mb' }), async (req: AuthRequest, res: Response) => {
+  try {
+    const contentType = (req.get('content-type') || '').split(';')[0].trim();
+
+    if (!AUDIO_TYPES[contentType] || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({
+        error: `Send the audio as the request body with one of these Content-Types: ${Object.keys(AUDIO_TYPES).join(', ')}`
+      });
+    }
+
+    const asset = await saveAudio(req.body, contentType);
+
+    res.status(201).json({
+      message: 'Audio uploaded',
+      media: { ...asset, url: mediaUrl(asset.id) }
+    });
+  } catch (error) {
+    console.error('Upload media error:', error);
+    res.status(500).json({ error: 'Failed to upload media' });
+  }
+});
+
+// Course files
+
+const YAML_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml'];
+
+// Import a course file sent as JSON, or as YAML with a YAML content type.
+// With ?check=true the file is only validated.
+router.post('/courses/import', express.text({ type: YAML_TYPES, limit: '10mb' }), [
+  query('check').optional().isBoolean().toBoolean()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    let data: unknown = req.body;
+    if (typeof req.body === 'string') {
+      try {
+        data = parseCourseFile(req.body, 'yaml');
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Invalid course file',
+          details: [{ path: '', message: (error as Error).message }]
+        });
+      }
+    }
+
+    const validation = validateCourseFile(data);
+    if ('errors' in validation) {
+      return res.status(400).json({ error: 'Invalid course file', details: validation.errors });
+    }
+
+    if (req.query.check) {
+      return res.json({ message: 'Course file is valid' });
+    }
+
+    const result = await importCourse(validation.course, req.user!.id);
+    if ('errors' in result) {
+      return res.status(400).json({ error: 'Invalid course file', details: result.errors });
+    }
+
+    const speech = await refreshSpeech(() => generateLanguageSpeech(result.language.id));
+
+    res.json({ message: 'Course imported', summary: result, speech });
+  } catch (error) {
+    console.error('Import course error:', error);
+    res.status(500).json({ error: 'Failed to import course' });
+  }
+});
+
+// Download a language's content as a JSON or YAML course file
+router.get('/courses/:code/export', [
+  query('format').optional().isIn(['json', 'yaml'])
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const format = (req.query.format as CourseFileFormat) || 'json';
+    const course = await exportCourse(req.params.code);
+
+    if (!course) {
+      return res.status(404).json({ error: 'Language not found' });
+    }
+
+    res
+      .type(format === 'yaml' ? 'application/yaml' : 'application/json')
+      .attachment(`${course.language.code}.${format}`)
+      .send(serializeCourseFile(course, format));
+  } catch (error) {
+    console.error('Export course error:', error);
+    res.status(500).json({ error: 'Failed to export course' });
+  }
+});
+
+// Users
+
+// Change a user's role (admins only)
+router.put('/users/:id/role', requireRole('admin'), [
+  body('role').isIn(ROLES)
+], async (req: AuthRequest, res: Response) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { id } = req.params;
+
+    if (id === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot change your own role' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: { role: req.body.role },
+      select: { id: true, username: true, role: true }
+    });
+
+    res.json({ message: 'Role updated', user: updated });
+  } catch (error) {
+    console.error('Update role error:', error);
+    res.status(500).json({ error: 'Failed to update role' });
+  }
+});
+
+export default router;
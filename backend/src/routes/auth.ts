@@ -4,6 +4,7 @@ import jwt from 'jsonwebtoken';
 import { body, validationResult } from 'express-validator';
 import { prisma } from '../index';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getStreakStatus, streakSelect, withCurrentStreak } from '../services/streaks';
 
 const router = Router();
 
@@ -73,6 +74,7 @@ router.post('/register', registerValidation, async (req: Request, res: Response)
         experience: true,
         streak: true,
         avatar: true,
+        role: true,
         createdAt: true
       }
     });
@@ -180,8 +182,9 @@ router.post('/login', loginValidation, async (req: Request, res: Response) => {
       lastName: user.lastName,
       level: user.level,
       experience: user.experience,
-      streak: user.streak,
+      streak: getStreakStatus(user).streak,
       avatar: user.avatar,
+      role: user.role,
       createdAt: user.createdAt
     };
 
@@ -233,8 +236,9 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
         lastName: true,
         level: true,
         experience: true,
-        streak: true,
+        ...streakSelect,
         avatar: true,
+        role: true,
         lastLogin: true,
         createdAt: true
       }
@@ -244,7 +248,7 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({ user });
+    res.json({ user: withCurrentStreak(user) });
   } catch (error) {
     console.error('Get user error:', error);
     res.status(500).json({ error: 'Failed to get user data' });
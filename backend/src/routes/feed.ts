@@ -0,0 +1,126 @@
+import { Router, Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import { prisma } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { visibleFeedEventsWhere } from '../services/feed';
+
+const router = Router();
+
+const CHEER = 'cheer';
+
+const findVisibleEvent = (eventId: string, viewerId: string) =>
+  prisma.feedEvent.findFirst({
+    where: { id: eventId, ...visibleFeedEventsWhere(viewerId) },
+    select: { id: true }
+  });
+
+// Get recent milestones from the people the user follows, newest first.
+// Pass the returned nextCursor to load the following page.
+router.get('/', authenticateToken, [
+  query('cursor').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const userId = req.user!.id;
+    const cursor = req.query.cursor as string | undefined;
+    const limit = (req.query.limit as unknown as number) || 20;
+
+    // Fetch one extra event to know whether another page exists
+    const events = await prisma.feedEvent.findMany({
+      where: visibleFeedEventsWhere(userId),
+      select: {
+        id: true,
+        type: true,
+        data: true,
+        createdAt: true,
+        user: {
+          select: { username: true, avatar: true, level: true }
+        },
+        reactions: {
+          where: { userId, type: CHEER },
+          select: { id: true }
+        },
+        _count: {
+          select: { reactions: true }
+        }
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    const page = events.slice(0, limit);
+
+    res.json({
+      events: page.map(event => ({
+        id: event.id,
+        type: event.type,
+        data: event.data,
+        createdAt: event.createdAt,
+        user: event.user,
+        cheerCount: event._count.reactions,
+        cheeredByMe: event.reactions.length > 0
+      })),
+      nextCursor: events.length > limit ? page[page.length - 1].id : null
+    });
+  } catch (error) {
+    console.error('Get feed error:', error);
+    res.status(500).json({ error: 'Failed to fetch feed' });
+  }
+});
+
+// Cheer a feed event
+router.post('/:eventId/cheer', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const event = await findVisibleEvent(req.params.eventId, userId);
+
+    if (!event) {
+      return res.status(404).json({ error: 'Feed event not found' });
+    }
+
+    await prisma.feedReaction.upsert({
+      where: {
+        eventId_userId_type: { eventId: event.id, userId, type: CHEER }
+      },
+      update: {},
+      create: { eventId: event.id, userId, type: CHEER }
+    });
+
+    const cheerCount = await prisma.feedReaction.count({ where: { eventId: event.id } });
+
+    res.status(201).json({ message: 'Cheered', cheerCount });
+  } catch (error) {
+    console.error('Cheer feed event error:', error);
+    res.status(500).json({ error: 'Failed to cheer' });
+  }
+});
+
+// Remove a cheer
+router.delete('/:eventId/cheer', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { eventId } = req.params;
+
+    await prisma.feedReaction.deleteMany({
+      where: { eventId, userId, type: CHEER }
+    });
+
+    const cheerCount = await prisma.feedReaction.count({ where: { eventId } });
+
+    res.json({ message: 'Cheer removed', cheerCount });
+  } catch (error) {
+    console.error('Remove cheer error:', error);
+    res.status(500).json({ error: 'Failed to remove cheer' });
+  }
+});
+
+export default router;
@@ -1,6 +1,16 @@
 import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { PlacementTest } from '@prisma/client';
 import { prisma } from '../index';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  answerPlacementQuestion,
+  getPlacementQuestion,
+  startPlacementTest
+} from '../services/placement';
+import { evaluateAchievements } from '../services/achievements';
+import { buildProgressEvents, publishFeedEvents } from '../services/feed';
+import { isAnswer } from '../services/grading';
 
 const router = Router();
 
@@ -99,7 +109,10 @@ router.post('/:id/enroll', authenticateToken, async (req: AuthRequest, res: Resp
           data: { isActive: true, startedAt: new Date() }
         });
 
-        return res.json({ message: 'Enrollment reactivated' });
+        const achievements = await evaluateAchievements(userId, ['enrollment']);
+        await publishFeedEvents(userId, buildProgressEvents({ achievements }));
+
+        return res.json({ message: 'Enrollment reactivated', achievements });
       }
     }
 
@@ -113,9 +126,13 @@ router.post('/:id/enroll', authenticateToken, async (req: AuthRequest, res: Resp
       }
     });
 
+    const achievements = await evaluateAchievements(userId, ['enrollment']);
+    await publishFeedEvents(userId, buildProgressEvents({ achievements }));
+
     res.status(201).json({
       message: 'Successfully enrolled in language',
-      enrollment
+      enrollment,
+      achievements
     });
 
   } catch (error) {
@@ -124,6 +141,122 @@ router.post('/:id/enroll', authenticateToken, async (req: AuthRequest, res: Resp
   }
 });
 
+const formatPlacementTest = async (test: PlacementTest) => ({
+  id: test.id,
+  status: test.status,
+  questionCount: test.questionCount,
+  correctCount: test.status === 'completed' ? test.correctCount : null,
+  lessonsTestedOut: test.lessonsTestedOut,
+  completedAt: test.completedAt,
+  question: test.status === 'in_progress' ? await getPlacementQuestion(test) : null
+});
+
+// Start a placement test to skip ahead in a language
+router.post('/:id/placement', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id: languageId } = req.params;
+    const userId = req.user!.id;
+
+    const enrollment = await prisma.enrollment.findFirst({
+      where: { userId, languageId, isActive: true }
+    });
+
+    if (!enrollment) {
+      return res.status(403).json({ error: 'Not enrolled in this language' });
+    }
+
+    const test = await startPlacementTest(enrollment);
+
+    if ('error' in test) {
+      return res.status(429).json({ error: test.error });
+    }
+
+    res.status(201).json({ placementTest: await formatPlacementTest(test) });
+  } catch (error) {
+    console.error('Start placement test error:', error);
+    res.status(500).json({ error: 'Failed to start placement test' });
+  }
+});
+
+// Get the latest placement test for a language
+router.get('/:id/placement', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { id: languageId } = req.params;
+    const userId = req.user!.id;
+
+    const test = await prisma.placementTest.findFirst({
+      where: {
+        userId,
+        enrollment: { languageId }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!test) {
+      return res.status(404).json({ error: 'No placement test found' });
+    }
+
+    res.json({ placementTest: await formatPlacementTest(test) });
+  } catch (error) {
+    console.error('Get placement test error:', error);
+    res.status(500).json({ error: 'Failed to fetch placement test' });
+  }
+});
+
+// Answer the current placement test question
+router.post('/:id/placement/answer', authenticateToken, [
+  body('answer').custom(isAnswer)
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        error: 'Validation failed', 
+        details: errors.array() 
+      });
+    }
+
+    const { id: languageId } = req.params;
+    const userId = req.user!.id;
+    const { answer } = req.body;
+
+    const enrollment = await prisma.enrollment.findFirst({
+      where: { userId, languageId, isActive: true }
+    });
+
+    if (!enrollment) {
+      return res.status(403).json({ error: 'Not enrolled in this language' });
+    }
+
+    const test = await prisma.placementTest.findFirst({
+      where: { enrollmentId: enrollment.id, status: 'in_progress' },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!test) {
+      return res.status(404).json({ error: 'No placement test in progress' });
+    }
+
+    const { test: updatedTest, result } = await answerPlacementQuestion(test, enrollment, answer);
+
+    // Tested-out lessons count towards lesson milestones
+    const achievements = updatedTest.status === 'completed'
+      ? await evaluateAchievements(userId, ['lesson_complete'])
+      : [];
+    await publishFeedEvents(userId, buildProgressEvents({ achievements }));
+
+    // Answers stay hidden until the end so they can't be collected mid-test
+    res.json({
+      result: updatedTest.status === 'completed' ? result : null,
+      placementTest: await formatPlacementTest(updatedTest),
+      achievements
+    });
+  } catch (error) {
+    console.error('Answer placement test error:', error);
+    res.status(500).json({ error: 'Failed to submit placement answer' });
+  }
+});
+
 // Get user's language enrollments
 router.get('/enrollments', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -0,0 +1,99 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  COHORT_SIZE,
+  LEAGUE_TIERS,
+  PROMOTION_SPOTS,
+  RELEGATION_SPOTS,
+  currentWeekStart,
+  getCohortStandings,
+  getTierInfo
+} from '../services/leagues';
+
+const router = Router();
+
+// Get all league tiers
+router.get('/tiers', async (req: Request, res: Response) => {
+  res.json({
+    tiers: LEAGUE_TIERS,
+    cohortSize: COHORT_SIZE,
+    promotionSpots: PROMOTION_SPOTS,
+    relegationSpots: RELEGATION_SPOTS
+  });
+});
+
+// Get the user's league for the current week
+router.get('/current', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const weekStart = currentWeekStart();
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { leagueTier: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const membership = await prisma.leagueMembership.findUnique({
+      where: { userId_weekStart: { userId, weekStart } }
+    });
+
+    if (!membership) {
+      return res.json({
+        tier: getTierInfo(user.leagueTier),
+        league: null,
+        message: 'Earn XP this week to join a league'
+      });
+    }
+
+    const league = await getCohortStandings(membership.cohortId);
+
+    res.json({
+      tier: getTierInfo(user.leagueTier),
+      league,
+      me: league?.standings.find(member => member.userId === userId) || null
+    });
+  } catch (error) {
+    console.error('Get current league error:', error);
+    res.status(500).json({ error: 'Failed to fetch current league' });
+  }
+});
+
+// Get the user's results from past weeks
+router.get('/history', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const memberships = await prisma.leagueMembership.findMany({
+      where: { userId, outcome: { not: null } },
+      select: {
+        weekStart: true,
+        experience: true,
+        finalRank: true,
+        outcome: true,
+        cohort: {
+          select: { tier: true, memberCount: true }
+        }
+      },
+      orderBy: { weekStart: 'desc' },
+      take: 20
+    });
+
+    const history = memberships.map(({ cohort, ...membership }) => ({
+      ...membership,
+      tier: getTierInfo(cohort.tier),
+      memberCount: cohort.memberCount
+    }));
+
+    res.json({ history });
+  } catch (error) {
+    console.error('Get league history error:', error);
+    res.status(500).json({ error: 'Failed to fetch league history' });
+  }
+});
+
+export default router;
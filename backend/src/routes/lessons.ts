@@ -1,37 +1,59 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
 import { prisma } from '../index';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, optionalAuth, AuthRequest } from '../middleware/auth';
+import { gradeExercise, gradeLesson, gradingSelect, isAnswer, SubmittedAnswer } from '../services/grading';
+import { getLessonUnlockStates, getPassThreshold, isLessonUnlocked } from '../services/unlocking';
+import { awardExperience } from '../services/experience';
+import { recordActivity } from '../services/streaks';
+import { evaluateAchievements } from '../services/achievements';
+import { buildProgressEvents, publishFeedEvents } from '../services/feed';
+import { getVersionExercises } from '../services/lessonVersions';
+import { exercisePayloadSelect, toExercisePayload } from '../services/exercisePayload';
+import { AUDIO_TYPES } from '../services/media';
+import { resolveSpeakingAnswers, scoreRecording, withoutUnscorableExercises } from '../services/speaking';
+import {
+  buildCourseTree,
+  CurriculumLesson,
+  flattenCurriculum,
+  getCourseLessons,
+  getCurriculum,
+  rollUpCompletion
+} from '../services/curriculum';
+import { recordReviewResults } from '../services/srs';
+import { recordMistakeResults } from '../services/mistakes';
 
 const router = Router();
 
-// Get all lessons for a language
-router.get('/language/:languageId', async (req: Request, res: Response) => {
+// Get all lessons for a language, as a flat list in course order and as
+// the sections -> units -> skills tree with completion at each level
+router.get('/language/:languageId', optionalAuth, async (req: AuthRequest, res: Response) => {
   try {
     const { languageId } = req.params;
 
-    const lessons = await prisma.lesson.findMany({
-      where: {
-        languageId,
-        isActive: true
-      },
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        order: true,
-        difficulty: true,
-        _count: {
-          select: {
-            exercises: {
-              where: { isActive: true }
-            }
-          }
-        }
-      },
-      orderBy: { order: 'asc' }
+    const curriculum = await getCurriculum(languageId);
+    const lessons = flattenCurriculum(curriculum);
+
+    // Anonymous visitors only see the first lesson as unlocked
+    const unlockStates = await getLessonUnlockStates(req.user?.id ?? null, languageId, lessons);
+    const withState = ({ skillId, checkpointUnitId, isActive, ...lesson }: CurriculumLesson) => ({
+      ...lesson,
+      isCheckpoint: !!checkpointUnitId,
+      isUnlocked: unlockStates.get(lesson.id)?.isUnlocked ?? false,
+      isPassed: unlockStates.get(lesson.id)?.isPassed ?? false,
+      isCompleted: unlockStates.get(lesson.id)?.isCompleted ?? false,
+      passThreshold: getPassThreshold(lesson.difficulty)
     });
 
-    res.json({ lessons });
+    const lessonsWithState = lessons.map(withState);
+    const { sections, unassignedLessons } = buildCourseTree(curriculum, withState);
+
+    res.json({
+      lessons: lessonsWithState,
+      sections,
+      unassignedLessons,
+      completion: rollUpCompletion(lessonsWithState)
+    });
   } catch (error) {
     console.error('Get lessons error:', error);
     res.status(500).json({ error: 'Failed to fetch lessons' });
@@ -61,7 +83,8 @@ router.get('/:id', async (req: Request, res: Response) => {
             question: true,
             options: true,
             order: true,
-            points: true
+            points: true,
+            ...exercisePayloadSelect
           },
           orderBy: { order: 'asc' }
         }
@@ -72,7 +95,9 @@ router.get('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Lesson not found' });
     }
 
-    res.json({ lesson });
+    res.json({
+      lesson: { ...lesson, exercises: withoutUnscorableExercises(lesson.exercises).map(toExercisePayload) }
+    });
   } catch (error) {
     console.error('Get lesson error:', error);
     res.status(500).json({ error: 'Failed to fetch lesson' });
@@ -103,7 +128,8 @@ router.get('/:id/progress', authenticateToken, async (req: AuthRequest, res: Res
             question: true,
             options: true,
             order: true,
-            points: true
+            points: true,
+            ...exercisePayloadSelect
           },
           orderBy: { order: 'asc' }
         }
@@ -139,8 +165,10 @@ router.get('/:id/progress', authenticateToken, async (req: AuthRequest, res: Res
 
     const lessonWithProgress = {
       ...lesson,
+      exercises: withoutUnscorableExercises(lesson.exercises).map(toExercisePayload),
       userProgress: progress,
-      isUnlocked: true // For now, all lessons are unlocked
+      isUnlocked: await isLessonUnlocked(userId, lessonId, lesson.language.id),
+      passThreshold: getPassThreshold(lesson.difficulty)
     };
 
     res.json({ lesson: lessonWithProgress });
@@ -150,12 +178,31 @@ router.get('/:id/progress', authenticateToken, async (req: AuthRequest, res: Res
   }
 });
 
+// Validation rules
+const completeValidation = [
+  body('answers').isArray(),
+  body('answers.*.exerciseId').isString().notEmpty(),
+  body('answers.*.answer').custom(isAnswer),
+  body('answers.*.responseTime').optional().isInt({ min: 0 }).toInt(),
+  body('timeSpent').optional().isInt({ min: 0 }).toInt(),
+  body('version').optional().isInt({ min: 1 }).toInt()
+];
+
 // Submit lesson completion
-router.post('/:id/complete', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.post('/:id/complete', authenticateToken, completeValidation, async (req: AuthRequest, res: Response) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        error: 'Validation failed', 
+        details: errors.array() 
+      });
+    }
+
     const { id: lessonId } = req.params;
     const userId = req.user!.id;
-    const { score, timeSpent, answers } = req.body;
+    const { timeSpent = 0, version } = req.body;
+    const answers: SubmittedAnswer[] = req.body.answers;
 
     // Validate lesson exists
     const lesson = await prisma.lesson.findUnique({
@@ -179,14 +226,53 @@ router.post('/:id/complete', authenticateToken, async (req: AuthRequest, res: Re
       return res.status(403).json({ error: 'Not enrolled in this language' });
     }
 
-    // Calculate total possible points
-    const exercises = await prisma.exercise.findMany({
+    if (!(await isLessonUnlocked(userId, lessonId, lesson.languageId))) {
+      return res.status(403).json({ error: 'Lesson is locked' });
+    }
+
+    // Grade submitted answers against the answer key of the version the
+    // learner started, in case a newer one was published since
+    const pinned = version && version !== lesson.publishedVersion
+      ? await getVersionExercises(lesson, version)
+      : null;
+
+    if (pinned && 'error' in pinned) {
+      return res.status(409).json({ error: pinned.error });
+    }
+
+    const exercises = withoutUnscorableExercises(pinned?.exercises ?? await prisma.exercise.findMany({
       where: { lessonId, isActive: true },
-      select: { points: true }
-    });
+      select: gradingSelect,
+      orderBy: { order: 'asc' }
+    }));
 
-    const totalPoints = exercises.reduce((sum, ex) => sum + ex.points, 0);
-    const finalScore = Math.min(score, totalPoints);
+    const grade = gradeLesson(exercises, await resolveSpeakingAnswers(userId, exercises, answers));
+    const { totalPoints } = grade;
+    const finalScore = grade.score;
+
+    // Keep a log of every attempt; progress below only holds the latest one
+    const responseTimes = new Map(answers.map(a => [a.exerciseId, a.responseTime]));
+    const attempt = await prisma.lessonAttempt.create({
+      data: {
+        userId,
+        lessonId,
+        enrollmentId: enrollment.id,
+        score: finalScore,
+        totalPoints,
+        correctCount: grade.correctCount,
+        timeSpent,
+        answers: {
+          create: grade.results.map(result => ({
+            exerciseId: result.exerciseId,
+            answer: result.submittedAnswer,
+            isCorrect: result.isCorrect,
+            matchType: result.matchType,
+            pointsEarned: result.pointsEarned,
+            responseTime: responseTimes.get(result.exerciseId)
+          }))
+        }
+      }
+    });
 
     // Create or update progress
     const progress = await prisma.progress.upsert({
@@ -213,72 +299,185 @@ router.post('/:id/complete', authenticateToken, async (req: AuthRequest, res: Re
       }
     });
 
+    // Schedule the lesson's exercises for spaced repetition review
+    await recordReviewResults(userId, grade.results);
+    await recordMistakeResults(userId, grade.results);
+
     // Update user experience and level
     const experienceGained = Math.floor(finalScore / 10);
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { experience: true, level: true }
+    const experience = await awardExperience(userId, experienceGained, {
+      source: 'lesson',
+      languageId: lesson.languageId
     });
+    const streak = await recordActivity(userId, 'lesson', experienceGained);
 
-    if (user) {
-      const newExperience = user.experience + experienceGained;
-      const newLevel = Math.floor(newExperience / 100) + 1;
+    const achievements = await evaluateAchievements(userId, ['lesson_complete', 'streak_change']);
 
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          experience: newExperience,
-          level: newLevel
-        }
+    await publishFeedEvents(userId, buildProgressEvents({
+      lesson: { id: lesson.id, title: lesson.title, score: finalScore, totalPoints },
+      experience,
+      streak,
+      achievements
+    }));
+
+    res.json({
+      message: 'Lesson completed successfully',
+      progress,
+      attemptId: attempt.id,
+      score: finalScore,
+      totalPoints,
+      correctCount: grade.correctCount,
+      results: grade.results,
+      experienceGained,
+      newLevel: experience ? experience.level : 1,
+      streak: streak ? streak.streak : 0,
+      achievements
+    });
+
+  } catch (error) {
+    console.error('Complete lesson error:', error);
+    res.status(500).json({ error: 'Failed to complete lesson' });
+  }
+});
+
+// Check a single answer while working through a lesson
+router.post('/exercises/:exerciseId/check', authenticateToken, [
+  body('answer').custom(isAnswer)
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ 
+        error: 'Validation failed', 
+        details: errors.array() 
       });
+    }
 
-      // Check for level up achievement
-      if (newLevel > user.level) {
-        await prisma.achievement.create({
-          data: {
-            userId,
-            type: 'level_up',
-            title: `Level ${newLevel}!`,
-            description: `Congratulations! You've reached level ${newLevel}`,
-            icon: '🎉'
-          }
-        });
+    const { exerciseId } = req.params;
+    const userId = req.user!.id;
+    const { answer } = req.body;
+
+    const exercise = await prisma.exercise.findUnique({
+      where: { id: exerciseId, isActive: true },
+      select: {
+        ...gradingSelect,
+        lesson: {
+          select: { id: true, languageId: true, isActive: true }
+        }
       }
+    });
+
+    if (!exercise || !exercise.lesson.isActive) {
+      return res.status(404).json({ error: 'Exercise not found' });
     }
 
-    // Check for perfect score achievement
-    if (finalScore === totalPoints) {
-      const existingAchievement = await prisma.achievement.findFirst({
-        where: {
-          userId,
-          type: 'perfect_score',
-          title: `Perfect Score in ${lesson.title}`
-        }
+    // Only enrolled learners may see the answer key
+    const enrollment = await prisma.enrollment.findFirst({
+      where: {
+        userId,
+        languageId: exercise.lesson.languageId,
+        isActive: true
+      }
+    });
+
+    if (!enrollment) {
+      return res.status(403).json({ error: 'Not enrolled in this language' });
+    }
+
+    if (!(await isLessonUnlocked(userId, exercise.lesson.id, exercise.lesson.languageId))) {
+      return res.status(403).json({ error: 'Lesson is locked' });
+    }
+
+    // Placement answers stay hidden until the test is over
+    const placementTest = await prisma.placementTest.findFirst({
+      where: {
+        userId,
+        status: 'in_progress',
+        OR: [
+          { currentExerciseId: exerciseId },
+          { probeExerciseIds: { has: exerciseId } }
+        ]
+      },
+      select: { id: true }
+    });
+
+    if (placementTest) {
+      return res.status(403).json({ error: 'This exercise is part of your placement test' });
+    }
+
+    const [resolved] = await resolveSpeakingAnswers(userId, [exercise], [{ exerciseId, answer }]);
+    const result = gradeExercise(exercise, resolved?.answer);
+
+    res.json({ result });
+  } catch (error) {
+    console.error('Check answer error:', error);
+    res.status(500).json({ error: 'Failed to check answer' });
+  }
+});
+
+// Upload a recording for a speaking exercise, sent as the raw request body
+// with its audio Content-Type. Returns the recording id, which is the
+// answer to submit, and instant feedback on what the scorer heard.
+router.post('/exercises/:exerciseId/recording', authenticateToken, express.raw({ type: Object.keys(AUDIO_TYPES), limit: '5mb' }), async (req: AuthRequest, res: Response) => {
+  try {
+    const { exerciseId } = req.params;
+    const userId = req.user!.id;
+    const contentType = (req.get('content-type') || '').split(';')[0].trim();
+
+    if (!AUDIO_TYPES[contentType] || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({
+        error: `Send the recording as the request body with one of these Content-Types: ${Object.keys(AUDIO_TYPES).join(', ')}`
       });
+    }
 
-      if (!existingAchievement) {
-        await prisma.achievement.create({
-          data: {
-            userId,
-            type: 'perfect_score',
-            title: `Perfect Score in ${lesson.title}`,
-            description: `You got a perfect score in ${lesson.title}!`,
-            icon: '⭐'
+    const exercise = await prisma.exercise.findUnique({
+      where: { id: exerciseId, isActive: true },
+      select: {
+        ...gradingSelect,
+        lesson: {
+          select: {
+            languageId: true,
+            isActive: true,
+            language: { select: { code: true } }
           }
-        });
+        }
       }
+    });
+
+    if (!exercise || !exercise.lesson.isActive || exercise.type !== 'speaking') {
+      return res.status(404).json({ error: 'Speaking exercise not found' });
     }
 
-    res.json({
-      message: 'Lesson completed successfully',
-      progress,
-      experienceGained,
-      newLevel: user ? Math.floor((user.experience + experienceGained) / 100) + 1 : 1
+    const enrollment = await prisma.enrollment.findFirst({
+      where: {
+        userId,
+        languageId: exercise.lesson.languageId,
+        isActive: true
+      }
     });
 
+    if (!enrollment) {
+      return res.status(403).json({ error: 'Not enrolled in this language' });
+    }
+
+    const recording = await scoreRecording(
+      userId,
+      { id: exercise.id, correctAnswer: exercise.correctAnswer, language: exercise.lesson.language.code },
+      req.body,
+      contentType
+    );
+
+    if ('error' in recording) {
+      return res.status(503).json({ error: recording.error });
+    }
+
+    res.status(201).json({
+      recording,
+      result: gradeExercise(exercise, recording.transcript)
+    });
   } catch (error) {
-    console.error('Complete lesson error:', error);
-    res.status(500).json({ error: 'Failed to complete lesson' });
+    console.error('Score recording error:', error);
+    res.status(500).json({ error: 'Failed to score recording' });
   }
 });
 
@@ -290,31 +489,30 @@ router.get('/:id/next', authenticateToken, async (req: AuthRequest, res: Respons
 
     const currentLesson = await prisma.lesson.findUnique({
       where: { id: currentLessonId },
-      select: { languageId: true, order: true }
+      select: { languageId: true }
     });
 
     if (!currentLesson) {
       return res.status(404).json({ error: 'Current lesson not found' });
     }
 
-    // Find next lesson in sequence
-    const nextLesson = await prisma.lesson.findFirst({
-      where: {
-        languageId: currentLesson.languageId,
-        order: { gt: currentLesson.order },
-        isActive: true
-      },
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        order: true,
-        difficulty: true
-      },
-      orderBy: { order: 'asc' }
-    });
+    // Find next lesson in course order
+    const lessons = await getCourseLessons(currentLesson.languageId);
+    const index = lessons.findIndex(l => l.id === currentLessonId);
+    const next = index >= 0 ? lessons[index + 1] : undefined;
 
-    res.json({ nextLesson });
+    res.json({
+      nextLesson: next
+        ? {
+            id: next.id,
+            title: next.title,
+            description: next.description,
+            order: next.order,
+            difficulty: next.difficulty,
+            isCheckpoint: !!next.checkpointUnitId
+          }
+        : null
+    });
   } catch (error) {
     console.error('Get next lesson error:', error);
     res.status(500).json({ error: 'Failed to get next lesson' });
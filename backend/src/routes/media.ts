@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../index';
+import { getStorage } from '../services/storage';
+import { parseRange } from '../services/media';
+
+const router = Router();
+
+// Stream a media file, honouring Range requests so players can seek
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const asset = await prisma.mediaAsset.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!asset) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    const storage = getStorage();
+    const size = await storage.size(asset.storageKey);
+    if (size === null) {
+      return res.status(404).json({ error: 'Media file missing' });
+    }
+
+    // Assets never change once stored, and <audio> tags load them cross-origin
+    res.set({
+      'Accept-Ranges': 'bytes',
+      'Content-Type': asset.contentType,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'Cross-Origin-Resource-Policy': 'cross-origin'
+    });
+
+    const range = parseRange(req.headers.range, size);
+    if (range === 'invalid') {
+      return res.status(416).set('Content-Range', `bytes */${size}`).end();
+    }
+
+    if (range) {
+      res.status(206).set({
+        'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+        'Content-Length': String(range.end - range.start + 1)
+      });
+    } else {
+      res.set('Content-Length', String(size));
+    }
+
+    const stream = storage.read(asset.storageKey, range ?? undefined);
+    stream.on('error', error => {
+      console.error('Stream media error:', error);
+      res.destroy();
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Get media error:', error);
+    res.status(500).json({ error: 'Failed to fetch media' });
+  }
+});
+
+export default router;
@@ -0,0 +1,214 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { prisma } from '../index';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { gradeLesson, gradingSelect, isAnswer, SubmittedAnswer } from '../services/grading';
+import { dueReviewItemWhere, getDueReviewItems, recordReviewResults } from '../services/srs';
+import { getMistakes, recordMistakeResults, MISTAKE_CLEAR_STREAK } from '../services/mistakes';
+import { awardExperience } from '../services/experience';
+import { recordActivity } from '../services/streaks';
+import { evaluateAchievements } from '../services/achievements';
+import { buildProgressEvents, publishFeedEvents } from '../services/feed';
+import { toExercisePayload } from '../services/exercisePayload';
+import { resolveSpeakingAnswers, withoutUnscorableExercises } from '../services/speaking';
+
+const router = Router();
+
+// A served session can be submitted once, within this long
+const PRACTICE_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+type PracticeKind = 'review' | 'mistakes';
+
+const sessionExpiry = () => new Date(Date.now() - PRACTICE_SESSION_TTL_MS);
+
+// Serving the same exercises again returns the session already open for
+// them, so opening several sessions can't multiply the rewards
+const openPracticeSession = async (userId: string, kind: PracticeKind, exerciseIds: string[]) => {
+  if (exerciseIds.length === 0) return null;
+
+  const ids = [...exerciseIds].sort();
+  const open = await prisma.practiceSession.findFirst({
+    where: {
+      userId,
+      kind,
+      exerciseIds: { equals: ids },
+      completedAt: null,
+      createdAt: { gte: sessionExpiry() }
+    },
+    select: { id: true }
+  });
+  if (open) return open.id;
+
+  return (await prisma.practiceSession.create({ data: { userId, kind, exerciseIds: ids } })).id;
+};
+
+// Build a mixed review session from due items across active enrollments
+router.get('/', authenticateToken, [
+  query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+  query('languageId').optional().isString()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const userId = req.user!.id;
+    const limit = (req.query.limit as unknown as number) || 15;
+    const languageId = req.query.languageId as string | undefined;
+
+    const items = await getDueReviewItems(userId, limit, languageId);
+
+    const dueCount = await prisma.reviewItem.count({
+      where: dueReviewItemWhere(userId, languageId)
+    });
+
+    res.json({
+      sessionId: await openPracticeSession(userId, 'review', items.map(item => item.exercise.id)),
+      exercises: items.map(item => ({ ...toExercisePayload(item.exercise), dueAt: item.dueAt })),
+      dueCount
+    });
+  } catch (error) {
+    console.error('Get practice session error:', error);
+    res.status(500).json({ error: 'Failed to build practice session' });
+  }
+});
+
+// Build a "practice my mistakes" session for a language
+router.get('/mistakes/:languageId', authenticateToken, [
+  query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const userId = req.user!.id;
+    const { languageId } = req.params;
+    const limit = (req.query.limit as unknown as number) || 15;
+
+    const enrollment = await prisma.enrollment.findFirst({
+      where: { userId, languageId, isActive: true }
+    });
+
+    if (!enrollment) {
+      return res.status(403).json({ error: 'Not enrolled in this language' });
+    }
+
+    const mistakes = await getMistakes(userId, languageId, limit);
+
+    res.json({
+      sessionId: await openPracticeSession(userId, 'mistakes', mistakes.map(mistake => mistake.exercise.id)),
+      exercises: mistakes.map(mistake => ({
+        ...toExercisePayload(mistake.exercise),
+        missCount: mistake.missCount,
+        lastMissedAt: mistake.lastMissedAt,
+        correctAnswersToClear: MISTAKE_CLEAR_STREAK - mistake.correctStreak
+      }))
+    });
+  } catch (error) {
+    console.error('Get mistakes session error:', error);
+    res.status(500).json({ error: 'Failed to build mistakes session' });
+  }
+});
+
+// Submit a practice session (review or mistakes)
+router.post('/complete', authenticateToken, [
+  body('answers').isArray({ min: 1 }),
+  body('answers.*.exerciseId').isString().notEmpty(),
+  body('answers.*.answer').custom(isAnswer),
+  body('sessionId').optional().isString()
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const userId = req.user!.id;
+    const answers: SubmittedAnswer[] = req.body.answers;
+    const sessionId: string | undefined = req.body.sessionId;
+
+    const session = sessionId
+      ? await prisma.practiceSession.findFirst({ where: { id: sessionId, userId } })
+      : null;
+
+    if (sessionId && !session) {
+      return res.status(404).json({ error: 'Practice session not found' });
+    }
+
+    if (session && (session.completedAt || session.createdAt < sessionExpiry())) {
+      return res.status(409).json({ error: 'Practice session already completed or expired' });
+    }
+
+    // Only exercises served in the session, and only while they still need
+    // practice: review items that are due, or mistakes not yet cleared. So
+    // known answers can't be resubmitted for XP and early reviews don't
+    // move the schedule.
+    const submittedIds = answers.map(a => a.exerciseId);
+    const exercises = withoutUnscorableExercises(await prisma.exercise.findMany({
+      where: {
+        id: { in: session ? submittedIds.filter(id => session.exerciseIds.includes(id)) : submittedIds },
+        isActive: true,
+        ...(session?.kind === 'mistakes'
+          ? { mistakes: { some: { userId } } }
+          : { reviewItems: { some: { userId, dueAt: { lte: new Date() } } } })
+      },
+      select: gradingSelect
+    }));
+
+    if (exercises.length === 0) {
+      return res.status(400).json({ error: 'No practice exercises found' });
+    }
+
+    if (session) {
+      const { count } = await prisma.practiceSession.updateMany({
+        where: { id: session.id, completedAt: null },
+        data: { completedAt: new Date() }
+      });
+      if (count === 0) {
+        return res.status(409).json({ error: 'Practice session already completed or expired' });
+      }
+    }
+
+    const grade = gradeLesson(exercises, await resolveSpeakingAnswers(userId, exercises, answers));
+
+    await recordReviewResults(userId, grade.results);
+    await recordMistakeResults(userId, grade.results);
+
+    const experienceGained = Math.floor(grade.score / 10);
+    const experience = await awardExperience(userId, experienceGained, { source: 'practice' });
+    const streak = await recordActivity(userId, 'practice', experienceGained);
+
+    const achievements = await evaluateAchievements(userId, ['practice_complete', 'streak_change']);
+
+    await publishFeedEvents(userId, buildProgressEvents({ experience, streak, achievements }));
+
+    res.json({
+      message: 'Practice session completed',
+      score: grade.score,
+      totalPoints: grade.totalPoints,
+      correctCount: grade.correctCount,
+      results: grade.results,
+      experienceGained,
+      newLevel: experience ? experience.level : 1,
+      streak: streak ? streak.streak : 0,
+      achievements
+    });
+  } catch (error) {
+    console.error('Complete practice error:', error);
+    res.status(500).json({ error: 'Failed to complete practice session' });
+  }
+});
+
+export default router;
@@ -0,0 +1,258 @@
+import { Router, Response } from 'express';
+import { prisma } from '../index';
+import { authenticateToken, optionalAuth, AuthRequest } from '../middleware/auth';
+import { getStreakStatus } from '../services/streaks';
+
+const router = Router();
+
+const findUserByUsername = (username: string) =>
+  prisma.user.findUnique({
+    where: { username },
+    select: { id: true, username: true, isPrivate: true }
+  });
+
+// Private profiles are only visible to their owner
+const canViewProfile = (viewerId: string | undefined, user: { id: string; isPrivate: boolean }) =>
+  !user.isPrivate || viewerId === user.id;
+
+const followUserSelect = {
+  username: true,
+  avatar: true,
+  level: true
+} as const;
+
+// Get a user's public profile
+router.get('/:username', optionalAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const { username } = req.params;
+    const viewerId = req.user?.id;
+
+    const user = await prisma.user.findUnique({
+      where: { username },
+      select: {
+        id: true,
+        username: true,
+        firstName: true,
+        avatar: true,
+        isPrivate: true,
+        level: true,
+        experience: true,
+        streak: true,
+        longestStreak: true,
+        lastActiveDate: true,
+        streakFreezes: true,
+        brokenStreak: true,
+        brokenStreakDate: true,
+        timezone: true,
+        createdAt: true,
+        enrollments: {
+          where: { isActive: true },
+          select: {
+            level: true,
+            startedAt: true,
+            language: {
+              select: { id: true, name: true, code: true, flag: true }
+            }
+          },
+          orderBy: { startedAt: 'asc' }
+        },
+        achievements: {
+          select: {
+            type: true,
+            title: true,
+            description: true,
+            icon: true,
+            unlockedAt: true
+          },
+          orderBy: { unlockedAt: 'desc' },
+          take: 5
+        },
+        _count: {
+          select: {
+            followers: true,
+            following: true
+          }
+        }
+      }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!canViewProfile(viewerId, user)) {
+      return res.status(403).json({
+        error: 'This profile is private',
+        profile: { username: user.username, avatar: user.avatar, isPrivate: true }
+      });
+    }
+
+    const isFollowing = viewerId && viewerId !== user.id
+      ? !!(await prisma.follow.findUnique({
+          where: {
+            followerId_followingId: {
+              followerId: viewerId,
+              followingId: user.id
+            }
+          }
+        }))
+      : false;
+
+    const profile = {
+      username: user.username,
+      firstName: user.firstName,
+      avatar: user.avatar,
+      isPrivate: user.isPrivate,
+      level: user.level,
+      experience: user.experience,
+      streak: getStreakStatus(user).streak,
+      longestStreak: user.longestStreak,
+      languages: user.enrollments.map(enrollment => ({
+        ...enrollment.language,
+        level: enrollment.level,
+        startedAt: enrollment.startedAt
+      })),
+      recentAchievements: user.achievements,
+      followerCount: user._count.followers,
+      followingCount: user._count.following,
+      isFollowing,
+      joinedAt: user.createdAt
+    };
+
+    res.json({ profile });
+  } catch (error) {
+    console.error('Get public profile error:', error);
+    res.status(500).json({ error: 'Failed to fetch profile' });
+  }
+});
+
+// Follow a user
+router.post('/:username/follow', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const followerId = req.user!.id;
+    const target = await findUserByUsername(req.params.username);
+
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (target.id === followerId) {
+      return res.status(400).json({ error: 'You cannot follow yourself' });
+    }
+
+    await prisma.follow.upsert({
+      where: {
+        followerId_followingId: {
+          followerId,
+          followingId: target.id
+        }
+      },
+      update: {},
+      create: {
+        followerId,
+        followingId: target.id
+      }
+    });
+
+    res.status(201).json({ message: `Now following ${target.username}` });
+  } catch (error) {
+    console.error('Follow user error:', error);
+    res.status(500).json({ error: 'Failed to follow user' });
+  }
+});
+
+// Unfollow a user
+router.delete('/:username/follow', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const followerId = req.user!.id;
+    const target = await findUserByUsername(req.params.username);
+
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await prisma.follow.deleteMany({
+      where: {
+        followerId,
+        followingId: target.id
+      }
+    });
+
+    res.json({ message: `Unfollowed ${target.username}` });
+  } catch (error) {
+    console.error('Unfollow user error:', error);
+    res.status(500).json({ error: 'Failed to unfollow user' });
+  }
+});
+
+// Get a user's followers
+router.get('/:username/followers', optionalAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const target = await findUserByUsername(req.params.username);
+
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!canViewProfile(req.user?.id, target)) {
+      return res.status(403).json({ error: 'This profile is private' });
+    }
+
+    const follows = await prisma.follow.findMany({
+      where: {
+        followingId: target.id,
+        follower: { isPrivate: false }
+      },
+      select: {
+        createdAt: true,
+        follower: { select: followUserSelect }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    });
+
+    res.json({
+      followers: follows.map(f => ({ ...f.follower, followedAt: f.createdAt }))
+    });
+  } catch (error) {
+    console.error('Get followers error:', error);
+    res.status(500).json({ error: 'Failed to fetch followers' });
+  }
+});
+
+// Get the users someone follows
+router.get('/:username/following', optionalAuth, async (req: AuthRequest, res: Response) => {
+  try {
+    const target = await findUserByUsername(req.params.username);
+
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!canViewProfile(req.user?.id, target)) {
+      return res.status(403).json({ error: 'This profile is private' });
+    }
+
+    const follows = await prisma.follow.findMany({
+      where: {
+        followerId: target.id,
+        following: { isPrivate: false }
+      },
+      select: {
+        createdAt: true,
+        following: { select: followUserSelect }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    });
+
+    res.json({
+      following: follows.map(f => ({ ...f.following, followedAt: f.createdAt }))
+    });
+  } catch (error) {
+    console.error('Get following error:', error);
+    res.status(500).json({ error: 'Failed to fetch following' });
+  }
+});
+
+export default router;
@@ -1,6 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getLessonUnlockStates } from '../services/unlocking';
+import { getStreakStatus } from '../services/streaks';
+import {
+  buildCourseTree,
+  CurriculumLesson,
+  flattenCurriculum,
+  getCurriculum
+} from '../services/curriculum';
 
 const router = Router();
 
@@ -70,18 +78,9 @@ router.get('/language/:languageId', authenticateToken, async (req: AuthRequest,
       return res.status(403).json({ error: 'Not enrolled in this language' });
     }
 
-    // Get all lessons for the language
-    const lessons = await prisma.lesson.findMany({
-      where: { languageId, isActive: true },
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        order: true,
-        difficulty: true
-      },
-      orderBy: { order: 'asc' }
-    });
+    // Get all lessons for the language, in course order
+    const curriculum = await getCurriculum(languageId);
+    const lessons = flattenCurriculum(curriculum);
 
     // Get user's progress for each lesson
     const progress = await prisma.progress.findMany({
@@ -98,15 +97,25 @@ router.get('/language/:languageId', authenticateToken, async (req: AuthRequest,
       }
     });
 
+    const unlockStates = await getLessonUnlockStates(userId, languageId, lessons);
+
     // Combine lessons with progress
-    const lessonsWithProgress = lessons.map(lesson => {
+    const withProgress = (lesson: CurriculumLesson) => {
       const lessonProgress = progress.find(p => p.lessonId === lesson.id);
       return {
-        ...lesson,
+        id: lesson.id,
+        title: lesson.title,
+        description: lesson.description,
+        order: lesson.order,
+        difficulty: lesson.difficulty,
+        isCheckpoint: !!lesson.checkpointUnitId,
         progress: lessonProgress || null,
-        isCompleted: lessonProgress?.completed || false
+        isCompleted: lessonProgress?.completed || false,
+        isUnlocked: unlockStates.get(lesson.id)?.isUnlocked ?? false
       };
-    });
+    };
+    const lessonsWithProgress = lessons.map(withProgress);
+    const { sections, unassignedLessons } = buildCourseTree(curriculum, withProgress);
 
     // Calculate language statistics
     const totalLessons = lessons.length;
@@ -124,6 +133,8 @@ router.get('/language/:languageId', authenticateToken, async (req: AuthRequest,
         level: enrollment.level
       },
       lessons: lessonsWithProgress,
+      sections,
+      unassignedLessons,
       statistics: {
         totalLessons,
         completedLessons,
@@ -179,6 +190,89 @@ router.get('/lesson/:lessonId', authenticateToken, async (req: AuthRequest, res:
   }
 });
 
+// Get attempt history for a specific lesson
+router.get('/lesson/:lessonId/attempts', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { lessonId } = req.params;
+
+    const attempts = await prisma.lessonAttempt.findMany({
+      where: { userId, lessonId },
+      select: {
+        id: true,
+        score: true,
+        totalPoints: true,
+        correctCount: true,
+        timeSpent: true,
+        createdAt: true,
+        answers: {
+          select: {
+            exerciseId: true,
+            answer: true,
+            isCorrect: true,
+            matchType: true,
+            pointsEarned: true,
+            responseTime: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const summary = {
+      attemptCount: attempts.length,
+      bestScore: attempts.length > 0 ? Math.max(...attempts.map(a => a.score)) : null,
+      latestScore: attempts.length > 0 ? attempts[0].score : null,
+      firstScore: attempts.length > 0 ? attempts[attempts.length - 1].score : null
+    };
+
+    res.json({ attempts, summary });
+  } catch (error) {
+    console.error('Get lesson attempts error:', error);
+    res.status(500).json({ error: 'Failed to fetch lesson attempts' });
+  }
+});
+
+// Get the exercises a user misses most often
+router.get('/errors', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const misses = await prisma.exerciseAttempt.groupBy({
+      by: ['exerciseId'],
+      where: {
+        isCorrect: false,
+        attempt: { userId }
+      },
+      _count: { _all: true },
+      orderBy: { _count: { exerciseId: 'desc' } },
+      take: 20
+    });
+
+    const exercises = await prisma.exercise.findMany({
+      where: { id: { in: misses.map(m => m.exerciseId) } },
+      select: {
+        id: true,
+        type: true,
+        question: true,
+        lesson: {
+          select: { id: true, title: true }
+        }
+      }
+    });
+
+    const errors = misses.map(miss => ({
+      exercise: exercises.find(e => e.id === miss.exerciseId) || null,
+      missCount: miss._count._all
+    }));
+
+    res.json({ errors });
+  } catch (error) {
+    console.error('Get error analytics error:', error);
+    res.status(500).json({ error: 'Failed to fetch error analytics' });
+  }
+});
+
 // Get learning analytics
 router.get('/analytics', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -220,13 +314,26 @@ router.get('/analytics', authenticateToken, async (req: AuthRequest, res: Respon
     const averageScore = totalLessons > 0 ? recentProgress.reduce((sum, p) => sum + p.score, 0) / totalLessons : 0;
     const averageTime = totalLessons > 0 ? recentProgress.reduce((sum, p) => sum + p.timeSpent, 0) / totalLessons : 0;
 
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        streak: true,
+        longestStreak: true,
+        lastActiveDate: true,
+        streakFreezes: true,
+        brokenStreak: true,
+        brokenStreakDate: true,
+        timezone: true
+      }
+    });
+
     const analytics = {
       period: '30 days',
       totalLessonsCompleted: totalLessons,
       averageScore: Math.round(averageScore),
       averageTimePerLesson: Math.round(averageTime),
       dailyProgress,
-      learningStreak: 0 // This will be calculated separately
+      learningStreak: user ? getStreakStatus(user).streak : 0
     };
 
     res.json({ analytics });
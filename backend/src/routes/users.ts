@@ -3,6 +3,16 @@ import { body, validationResult } from 'express-validator';
 import bcrypt from 'bcryptjs';
 import { prisma } from '../index';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import {
+  buyStreakFreeze,
+  getStreakStatus,
+  isValidTimeZone,
+  repairStreak,
+  streakSelect,
+  withCurrentStreak
+} from '../services/streaks';
+import { evaluateAchievements } from '../services/achievements';
+import { buildProgressEvents, publishFeedEvents } from '../services/feed';
 
 const router = Router();
 
@@ -21,7 +31,8 @@ router.get('/profile', authenticateToken, async (req: AuthRequest, res: Response
         lastName: true,
         level: true,
         experience: true,
-        streak: true,
+        ...streakSelect,
+        isPrivate: true,
         avatar: true,
         lastLogin: true,
         createdAt: true
@@ -32,7 +43,7 @@ router.get('/profile', authenticateToken, async (req: AuthRequest, res: Response
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json({ user });
+    res.json({ user: withCurrentStreak(user) });
   } catch (error) {
     console.error('Get profile error:', error);
     res.status(500).json({ error: 'Failed to fetch profile' });
@@ -43,7 +54,9 @@ router.get('/profile', authenticateToken, async (req: AuthRequest, res: Response
 router.put('/profile', authenticateToken, [
   body('firstName').optional().trim().isLength({ min: 1, max: 50 }),
   body('lastName').optional().trim().isLength({ min: 1, max: 50 }),
-  body('avatar').optional().isURL()
+  body('avatar').optional().isURL(),
+  body('timezone').optional().custom(isValidTimeZone).withMessage('Invalid time zone'),
+  body('isPrivate').optional().isBoolean().toBoolean()
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -55,14 +68,16 @@ router.put('/profile', authenticateToken, [
     }
 
     const userId = req.user!.id;
-    const { firstName, lastName, avatar } = req.body;
+    const { firstName, lastName, avatar, timezone, isPrivate } = req.body;
 
     const updatedUser = await prisma.user.update({
       where: { id: userId },
       data: {
         firstName,
         lastName,
-        avatar
+        avatar,
+        timezone,
+        isPrivate
       },
       select: {
         id: true,
@@ -72,7 +87,8 @@ router.put('/profile', authenticateToken, [
         lastName: true,
         level: true,
         experience: true,
-        streak: true,
+        ...streakSelect,
+        isPrivate: true,
         avatar: true,
         lastLogin: true,
         createdAt: true
@@ -81,7 +97,7 @@ router.put('/profile', authenticateToken, [
 
     res.json({
       message: 'Profile updated successfully',
-      user: updatedUser
+      user: withCurrentStreak(updatedUser)
     });
   } catch (error) {
     console.error('Update profile error:', error);
@@ -206,55 +222,112 @@ router.get('/streak', authenticateToken, async (req: AuthRequest, res: Response)
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { streak: true, lastLogin: true }
+      select: {
+        streak: true,
+        longestStreak: true,
+        lastActiveDate: true,
+        streakFreezes: true,
+        brokenStreak: true,
+        brokenStreakDate: true,
+        timezone: true
+      }
     });
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Check if user logged in today to maintain streak
-    const today = new Date();
-    const lastLogin = user.lastLogin;
-    
-    let shouldUpdateStreak = false;
-    if (lastLogin) {
-      const daysSinceLastLogin = Math.floor(
-        (today.getTime() - lastLogin.getTime()) / (1000 * 60 * 60 * 24)
-      );
-      
-      if (daysSinceLastLogin === 1) {
-        // User logged in yesterday, increment streak
-        shouldUpdateStreak = true;
-      } else if (daysSinceLastLogin > 1) {
-        // User missed a day, reset streak
-        await prisma.user.update({
-          where: { id: userId },
-          data: { streak: 0 }
-        });
-        user.streak = 0;
-      }
-    } else {
-      // First time login
-      shouldUpdateStreak = true;
+    res.json(getStreakStatus(user));
+  } catch (error) {
+    console.error('Get streak error:', error);
+    res.status(500).json({ error: 'Failed to fetch streak' });
+  }
+});
+
+// Get the days the user was active
+router.get('/streak/history', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+
+    const activityDays = await prisma.activityDay.findMany({
+      where: { userId },
+      select: {
+        date: true,
+        lessonsCompleted: true,
+        practiceSessions: true,
+        experience: true
+      },
+      orderBy: { date: 'desc' },
+      take: days
+    });
+
+    res.json({ activityDays });
+  } catch (error) {
+    console.error('Get streak history error:', error);
+    res.status(500).json({ error: 'Failed to fetch streak history' });
+  }
+});
+
+// Buy a streak freeze with XP
+router.post('/streak/freezes', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await buyStreakFreeze(req.user!.id);
+
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
     }
 
-    if (shouldUpdateStreak) {
-      const newStreak = user.streak + 1;
-      await prisma.user.update({
-        where: { id: userId },
-        data: { streak: newStreak }
-      });
-      user.streak = newStreak;
+    res.json({
+      message: 'Streak freeze purchased',
+      ...result
+    });
+  } catch (error) {
+    console.error('Buy streak freeze error:', error);
+    res.status(500).json({ error: 'Failed to buy streak freeze' });
+  }
+});
+
+// Repair a recently broken streak with XP
+router.post('/streak/repair', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await repairStreak(req.user!.id);
+
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
     }
 
-    res.json({ 
-      streak: user.streak,
-      lastLogin: user.lastLogin
+    const achievements = await evaluateAchievements(req.user!.id, ['streak_change']);
+
+    await publishFeedEvents(req.user!.id, buildProgressEvents({ achievements }));
+
+    res.json({
+      message: 'Streak repaired',
+      ...result,
+      achievements
     });
   } catch (error) {
-    console.error('Get streak error:', error);
-    res.status(500).json({ error: 'Failed to fetch streak' });
+    console.error('Repair streak error:', error);
+    res.status(500).json({ error: 'Failed to repair streak' });
+  }
+});
+
+// Get streak freeze and repair usage
+router.get('/streak/freezes', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const usages = await prisma.streakFreezeUsage.findMany({
+      where: { userId },
+      select: { date: true, kind: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+
+    res.json({ usages });
+  } catch (error) {
+    console.error('Get streak freezes error:', error);
+    res.status(500).json({ error: 'Failed to fetch streak freeze usage' });
   }
 });
 
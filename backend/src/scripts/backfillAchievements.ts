@@ -0,0 +1,138 @@
+import dotenv from 'dotenv';
+import { prisma } from '../db';
+import { ACHIEVEMENT_CATALOG, achievementKey } from '../services/achievementCatalog';
+import { evaluateAllAchievements } from '../services/achievements';
+
+// One-off job: award every catalog achievement existing users already
+// qualify for. Safe to re-run; each tier is only ever stored once.
+//
+//   npm run achievements:backfill
+
+dotenv.config();
+
+const BATCH_SIZE = 100;
+
+// Level-ups awarded before the catalog existed have no key. Give them the
+// matching catalog key so the backfill doesn't award them a second time.
+const adoptLegacyLevelAchievements = async () => {
+  const levelDefinition = ACHIEVEMENT_CATALOG.find(d => d.id === 'level')!;
+  let adopted = 0;
+
+  for (const tier of levelDefinition.tiers) {
+    const key = `${levelDefinition.id}:${tier.target}`;
+    const legacy = await prisma.achievement.findMany({
+      where: { type: 'level_up', title: tier.title, key: null },
+      select: { id: true, userId: true }
+    });
+
+    for (const achievement of legacy) {
+      const alreadyKeyed = await prisma.achievement.findFirst({
+        where: { userId: achievement.userId, key }
+      });
+      if (alreadyKeyed) continue;
+
+      await prisma.achievement.update({
+        where: { id: achievement.id },
+        data: { key }
+      });
+      adopted += 1;
+    }
+  }
+
+  return adopted;
+};
+
+// Perfect scores used to be awarded once per lesson ("Perfect Score in
+// ..."). A user's n-th one stands for the tier with target n, so it keeps
+// its unlock date under that tier's key; the rest would only show up as
+// duplicates next to the tiers and are removed.
+const adoptLegacyPerfectScoreAchievements = async () => {
+  const perfectDefinition = ACHIEVEMENT_CATALOG.find(d => d.id === 'perfect_scores')!;
+  let adopted = 0;
+  let removed = 0;
+
+  const users = await prisma.achievement.groupBy({
+    by: ['userId'],
+    where: { type: perfectDefinition.type, key: null }
+  });
+
+  for (const { userId } of users) {
+    const legacy = await prisma.achievement.findMany({
+      where: { userId, type: perfectDefinition.type, key: null },
+      orderBy: { unlockedAt: 'asc' },
+      select: { id: true }
+    });
+
+    const adoptedIds = new Set<string>();
+    for (const tier of perfectDefinition.tiers) {
+      const achievement = legacy[tier.target - 1];
+      if (!achievement) break;
+
+      const key = achievementKey(perfectDefinition, tier);
+      const alreadyKeyed = await prisma.achievement.findFirst({ where: { userId, key } });
+      if (alreadyKeyed) continue;
+
+      await prisma.achievement.update({
+        where: { id: achievement.id },
+        data: { key, title: tier.title, description: tier.description, icon: perfectDefinition.icon }
+      });
+      adoptedIds.add(achievement.id);
+      adopted += 1;
+    }
+
+    const { count } = await prisma.achievement.deleteMany({
+      where: { id: { in: legacy.map(a => a.id).filter(id => !adoptedIds.has(id)) } }
+    });
+    removed += count;
+  }
+
+  return { adopted, removed };
+};
+
+async function main() {
+  console.log('🏆 Backfilling achievements...');
+
+  const adopted = await adoptLegacyLevelAchievements();
+  console.log(`🔑 Linked ${adopted} existing level-up achievements to the catalog`);
+
+  const perfectScores = await adoptLegacyPerfectScoreAchievements();
+  console.log(
+    `⭐ Linked ${perfectScores.adopted} per-lesson perfect scores to the catalog ` +
+    `and removed ${perfectScores.removed} duplicates`
+  );
+
+  let cursor: string | undefined;
+  let usersProcessed = 0;
+  let achievementsAwarded = 0;
+
+  while (true) {
+    const users = await prisma.user.findMany({
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } })
+    });
+
+    if (users.length === 0) break;
+
+    for (const user of users) {
+      const unlocked = await evaluateAllAchievements(user.id);
+      achievementsAwarded += unlocked.length;
+    }
+
+    usersProcessed += users.length;
+    cursor = users[users.length - 1].id;
+    console.log(`👥 Processed ${usersProcessed} users`);
+  }
+
+  console.log(`✅ Awarded ${achievementsAwarded} achievements to ${usersProcessed} users`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during achievement backfill:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,68 @@
+import dotenv from 'dotenv';
+import { prisma } from '../db';
+import { localDateKey } from '../services/streaks';
+
+// One-off job: give streaks kept before active days were tracked a last
+// active day, so they lapse like any other streak once days are missed,
+// and count them towards the longest streak. Safe to re-run.
+//
+//   npm run streaks:backfill
+
+dotenv.config();
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  console.log('🔥 Backfilling streaks...');
+
+  let cursor: string | undefined;
+  let usersProcessed = 0;
+  let usersUpdated = 0;
+
+  while (true) {
+    const users = await prisma.user.findMany({
+      // Updated users drop out of the filter, so page by id instead of a cursor
+      where: { streak: { gt: 0 }, lastActiveDate: null, ...(cursor && { id: { gt: cursor } }) },
+      select: { id: true, streak: true, longestStreak: true, timezone: true, lastLogin: true, updatedAt: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    if (users.length === 0) break;
+
+    for (const user of users) {
+      // The last day with recorded activity, or else the last sign-in
+      const lastActivity = await prisma.activityDay.findFirst({
+        where: { userId: user.id },
+        orderBy: { date: 'desc' },
+        select: { date: true }
+      });
+      const lastActiveDate = lastActivity?.date ??
+        localDateKey(user.lastLogin ?? user.updatedAt, user.timezone);
+
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, lastActiveDate: null },
+        data: {
+          lastActiveDate,
+          longestStreak: Math.max(user.longestStreak, user.streak)
+        }
+      });
+      usersUpdated += count;
+    }
+
+    usersProcessed += users.length;
+    cursor = users[users.length - 1].id;
+    console.log(`👥 Processed ${usersProcessed} users`);
+  }
+
+  console.log(`✅ Backfilled the streaks of ${usersUpdated} users`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during streak backfill:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import { writeFile } from 'fs/promises';
+import { prisma } from '../db';
+import { courseFileFormatFor, serializeCourseFile } from '../services/courseFile';
+import { exportCourse } from '../services/courseImport';
+
+// Export a language's content as a course file. The format follows the
+// output file's extension; without a file, JSON is printed to stdout.
+//
+//   npm run course:export -- es courses/spanish.yaml
+
+dotenv.config();
+
+async function main() {
+  const [code, file] = process.argv.slice(2);
+  if (!code) {
+    throw new Error('Usage: npm run course:export -- <language code> [file.json|file.yaml]');
+  }
+
+  const course = await exportCourse(code);
+  if (!course) {
+    throw new Error(`Language "${code}" not found`);
+  }
+
+  if (!file) {
+    process.stdout.write(serializeCourseFile(course, 'json'));
+    return;
+  }
+
+  await writeFile(file, serializeCourseFile(course, courseFileFormatFor(file)));
+  console.log(`✅ Exported ${course.lessons.length} lessons to ${file}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during course export:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import { prisma } from '../db';
+import { generateLanguageSpeech } from '../services/speech';
+
+// Generate audio for listening and speaking exercises that don't have it
+// yet or whose text has changed, for one language or all of them.
+//
+//   npm run tts:generate
+//   npm run tts:generate -- es
+
+dotenv.config();
+
+async function main() {
+  const [code] = process.argv.slice(2);
+
+  let languageId: string | undefined;
+  if (code) {
+    const language = await prisma.language.findUnique({ where: { code }, select: { id: true } });
+    if (!language) {
+      throw new Error(`Language "${code}" not found`);
+    }
+    languageId = language.id;
+  }
+
+  console.log(`🔊 Generating exercise audio for ${code ?? 'all languages'}...`);
+  const summary = await generateLanguageSpeech(languageId);
+  if (!summary) {
+    console.log('⏭️  TTS_PROVIDER is none, nothing generated');
+    return;
+  }
+
+  console.log(`✅ ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed`);
+  if (summary.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error generating audio:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
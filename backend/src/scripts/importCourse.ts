@@ -0,0 +1,67 @@
+import dotenv from 'dotenv';
+import { readFile } from 'fs/promises';
+import { prisma } from '../db';
+import { courseFileFormatFor, parseCourseFile, validateCourseFile } from '../services/courseFile';
+import { importCourse } from '../services/courseImport';
+import { generateLanguageSpeech } from '../services/speech';
+
+// Import a JSON or YAML course file, creating or updating its language,
+// sections, units, skills, lessons and exercises. Pass --check to only validate the file.
+//
+//   npm run course:import -- courses/spanish.yaml
+//   npm run course:import -- courses/spanish.yaml --check
+
+dotenv.config();
+
+async function main() {
+  const file = process.argv.slice(2).find(arg => !arg.startsWith('--'));
+  if (!file) {
+    throw new Error('Usage: npm run course:import -- <file.json|file.yaml> [--check]');
+  }
+
+  console.log(`📖 Reading ${file}...`);
+  const data = parseCourseFile(await readFile(file, 'utf8'), courseFileFormatFor(file));
+
+  const validation = validateCourseFile(data);
+  if ('errors' in validation) {
+    console.error(`❌ ${file} is not a valid course file:`);
+    validation.errors.forEach(e => console.error(`   ${e.path || '(root)'}: ${e.message}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  if (process.argv.includes('--check')) {
+    console.log('✅ Course file is valid');
+    return;
+  }
+
+  const result = await importCourse(validation.course);
+  if ('errors' in result) {
+    result.errors.forEach(e => console.error(`❌ ${e.path}: ${e.message}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const { language, structure, lessons, exercises, draftsDiscarded } = result;
+  console.log(`🌍 Language ${language.code} ${language.created ? 'created' : 'updated'}`);
+  console.log(`🗂️  Sections, units and skills: ${structure.created} created, ${structure.updated} updated, ${structure.unchanged} unchanged, ${structure.deactivated} deactivated`);
+  console.log(`📚 Lessons: ${lessons.created} created, ${lessons.updated} updated, ${lessons.unchanged} unchanged, ${lessons.deactivated} deactivated`);
+  console.log(`✏️  Exercises: ${exercises.created} created, ${exercises.updated} updated, ${exercises.unchanged} unchanged, ${exercises.deactivated} deactivated`);
+  if (draftsDiscarded > 0) {
+    console.log(`🗑️  Discarded ${draftsDiscarded} drafts of lessons the import changed`);
+  }
+
+  const speech = await generateLanguageSpeech(language.id);
+  if (speech) {
+    console.log(`🔊 Audio: ${speech.updated} updated, ${speech.unchanged} unchanged, ${speech.failed} failed`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during course import:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,47 @@
+import dotenv from 'dotenv';
+import { prisma } from '../db';
+import { currentWeekStart, rolloverLeagues } from '../services/leagues';
+
+// Weekly job: rank every cohort of a finished week and promote/relegate.
+// Defaults to last week; pass --week=YYYY-MM-DD (a Monday) to pick one.
+//
+//   npm run leagues:rollover
+//   npm run leagues:rollover -- --week=2024-01-01
+
+dotenv.config();
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const parseWeekArg = () => {
+  const arg = process.argv.find(a => a.startsWith('--week='));
+  if (!arg) {
+    return new Date(currentWeekStart().getTime() - WEEK_MS);
+  }
+
+  const weekStart = new Date(`${arg.slice('--week='.length)}T00:00:00Z`);
+  if (Number.isNaN(weekStart.getTime()) || weekStart.getUTCDay() !== 1) {
+    throw new Error('--week must be a Monday in YYYY-MM-DD format');
+  }
+  return weekStart;
+};
+
+async function main() {
+  const weekStart = parseWeekArg();
+  console.log(`🏁 Rolling over leagues for the week of ${weekStart.toISOString().split('T')[0]}...`);
+
+  const summary = await rolloverLeagues(weekStart);
+
+  console.log(`✅ Processed ${summary.cohorts} cohorts`);
+  console.log(`⬆️  Promoted: ${summary.promoted}`);
+  console.log(`⬇️  Relegated: ${summary.relegated}`);
+  console.log(`➡️  Stayed: ${summary.stayed}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during league rollover:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import { prisma } from '../db';
+import { ROLES } from '../middleware/auth';
+
+// Grant a role from the command line, e.g. to create the first admin.
+//
+//   npm run users:role -- someone@example.com admin
+
+dotenv.config();
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !ROLES.includes(role)) {
+    throw new Error(`Usage: npm run users:role -- <email> <${ROLES.join('|')}>`);
+  }
+
+  const user = await prisma.user.update({
+    where: { email },
+    data: { role },
+    select: { username: true, role: true }
+  });
+
+  console.log(`✅ ${user.username} is now ${user.role}`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error setting role:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,108 @@
+// Every achievement a user can unlock. Each definition is evaluated against
+// one metric; reaching a tier's target unlocks that tier exactly once.
+
+export type AchievementEvent =
+  | 'lesson_complete'
+  | 'practice_complete'
+  | 'level_change'
+  | 'streak_change'
+  | 'enrollment';
+
+export type AchievementMetric =
+  | 'level'
+  | 'streak'
+  | 'lessonsCompleted'
+  | 'perfectScores'
+  | 'languagesEnrolled';
+
+export interface AchievementTier {
+  target: number;
+  title: string;
+  description: string;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  type: string; // Stored as Achievement.type
+  metric: AchievementMetric;
+  events: AchievementEvent[];
+  icon: string;
+  tiers: AchievementTier[];
+}
+
+const LEVEL_TARGETS = [2, 3, 4, 5, 6, 7, 8, 9, 10, 15, 20, 25, 30, 40, 50];
+const STREAK_TARGETS = [7, 14, 30, 60, 100];
+const LESSON_TARGETS = [10, 25, 50, 100];
+const PERFECT_SCORE_TARGETS = [1, 5, 10, 20, 50];
+const LANGUAGE_TARGETS = [1, 3, 5];
+
+export const ACHIEVEMENT_CATALOG: AchievementDefinition[] = [
+  {
+    id: 'level',
+    type: 'level_up',
+    metric: 'level',
+    events: ['lesson_complete', 'practice_complete', 'level_change'],
+    icon: '🎉',
+    tiers: LEVEL_TARGETS.map(level => ({
+      target: level,
+      title: `Level ${level}!`,
+      description: `Congratulations! You've reached level ${level}`
+    }))
+  },
+  {
+    id: 'streak',
+    type: 'streak',
+    metric: 'streak',
+    events: ['streak_change'],
+    icon: '🔥',
+    tiers: STREAK_TARGETS.map(days => ({
+      target: days,
+      title: `${days} Day Streak`,
+      description: `Maintain your learning streak for ${days} days`
+    }))
+  },
+  {
+    id: 'lessons',
+    type: 'lesson_complete',
+    metric: 'lessonsCompleted',
+    events: ['lesson_complete'],
+    icon: '📚',
+    tiers: LESSON_TARGETS.map(count => ({
+      target: count,
+      title: `Complete ${count} Lessons`,
+      description: `Complete ${count} lessons`
+    }))
+  },
+  {
+    id: 'perfect_scores',
+    type: 'perfect_score',
+    metric: 'perfectScores',
+    events: ['lesson_complete'],
+    icon: '⭐',
+    tiers: PERFECT_SCORE_TARGETS.map(count => ({
+      target: count,
+      title: count === 1 ? 'Perfect Score' : `${count} Perfect Scores`,
+      description: count === 1
+        ? 'Get a perfect score in a lesson'
+        : `Get ${count} perfect scores in lessons`
+    }))
+  },
+  {
+    id: 'languages',
+    type: 'enrollment',
+    metric: 'languagesEnrolled',
+    events: ['enrollment'],
+    icon: '🌍',
+    tiers: LANGUAGE_TARGETS.map(count => ({
+      target: count,
+      title: count === 1 ? 'First Steps' : `Polyglot ${count}`,
+      description: count === 1
+        ? 'Enroll in your first language'
+        : `Study ${count} languages at once`
+    }))
+  }
+];
+
+// Stable identifier stored on each awarded achievement
+export const achievementKey = (definition: AchievementDefinition, tier: AchievementTier) =>
+  `${definition.id}:${tier.target}`;
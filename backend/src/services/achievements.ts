@@ -0,0 +1,170 @@
+import { prisma } from '../db';
+import {
+  ACHIEVEMENT_CATALOG,
+  AchievementDefinition,
+  AchievementEvent,
+  AchievementMetric,
+  achievementKey
+} from './achievementCatalog';
+import { unscorableExerciseTypes } from './speaking';
+
+type Metrics = Partial<Record<AchievementMetric, number>>;
+
+const metricLoaders: Record<AchievementMetric, (userId: string) => Promise<number>> = {
+  level: async userId => {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { level: true } });
+    return user?.level ?? 0;
+  },
+  // Best streak ever reached, so a milestone isn't missed if the streak
+  // broke before it was evaluated
+  streak: async userId => {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { streak: true, longestStreak: true }
+    });
+    return user ? Math.max(user.streak, user.longestStreak) : 0;
+  },
+  lessonsCompleted: userId =>
+    prisma.progress.count({ where: { userId, completed: true } }),
+  // Lessons with at least one attempt scoring every available point
+  perfectScores: async userId => {
+    const attempts = await prisma.lessonAttempt.findMany({
+      where: {
+        userId,
+        totalPoints: { gt: 0 },
+        score: { equals: prisma.lessonAttempt.fields.totalPoints }
+      },
+      distinct: ['lessonId'],
+      select: { lessonId: true }
+    });
+    const perfected = new Set(attempts.map(a => a.lessonId));
+
+    // Lessons completed before attempts were recorded only have the score
+    // kept on their progress, so compare it with the lesson's total
+    const progress = await prisma.progress.findMany({
+      where: {
+        userId,
+        completed: true,
+        testedOut: false,
+        score: { gt: 0 },
+        lessonId: { notIn: [...perfected] }
+      },
+      select: { lessonId: true, score: true }
+    });
+    if (progress.length > 0) {
+      const pointTotals = await prisma.exercise.groupBy({
+        by: ['lessonId'],
+        where: {
+          lessonId: { in: progress.map(p => p.lessonId) },
+          isActive: true,
+          type: { notIn: unscorableExerciseTypes() }
+        },
+        _sum: { points: true }
+      });
+      for (const p of progress) {
+        const totalPoints = pointTotals.find(t => t.lessonId === p.lessonId)?._sum.points ?? 0;
+        if (totalPoints > 0 && p.score >= totalPoints) perfected.add(p.lessonId);
+      }
+    }
+
+    return perfected.size;
+  },
+  languagesEnrolled: userId =>
+    prisma.enrollment.count({ where: { userId, isActive: true } })
+};
+
+const loadMetrics = async (userId: string, definitions: AchievementDefinition[]) => {
+  const metrics: Metrics = {};
+  for (const metric of new Set(definitions.map(d => d.metric))) {
+    metrics[metric] = await metricLoaders[metric](userId);
+  }
+  return metrics;
+};
+
+// Award every tier the user has reached for the given definitions. The
+// (userId, key) unique constraint guarantees each tier is stored once.
+const awardReachedTiers = async (userId: string, definitions: AchievementDefinition[]) => {
+  const metrics = await loadMetrics(userId, definitions);
+
+  const reached = definitions.flatMap(definition =>
+    definition.tiers
+      .filter(tier => (metrics[definition.metric] ?? 0) >= tier.target)
+      .map(tier => ({
+        userId,
+        key: achievementKey(definition, tier),
+        type: definition.type,
+        title: tier.title,
+        description: tier.description,
+        icon: definition.icon
+      }))
+  );
+
+  if (reached.length === 0) return [];
+
+  const existing = await prisma.achievement.findMany({
+    where: { userId, key: { in: reached.map(a => a.key) } },
+    select: { key: true }
+  });
+  const existingKeys = new Set(existing.map(a => a.key));
+  const unlocked = reached.filter(a => !existingKeys.has(a.key));
+
+  if (unlocked.length === 0) return [];
+
+  await prisma.achievement.createMany({ data: unlocked, skipDuplicates: true });
+
+  return prisma.achievement.findMany({
+    where: { userId, key: { in: unlocked.map(a => a.key) } },
+    select: {
+      id: true,
+      key: true,
+      type: true,
+      title: true,
+      description: true,
+      icon: true,
+      unlockedAt: true
+    }
+  });
+};
+
+// Evaluate the achievements that listen to any of the given events and
+// return the ones newly unlocked
+export const evaluateAchievements = (userId: string, events: AchievementEvent[]) =>
+  awardReachedTiers(
+    userId,
+    ACHIEVEMENT_CATALOG.filter(d => d.events.some(event => events.includes(event)))
+  );
+
+// Evaluate the whole catalog, regardless of event
+export const evaluateAllAchievements = (userId: string) =>
+  awardReachedTiers(userId, ACHIEVEMENT_CATALOG);
+
+// Catalog with the user's current value and unlocked tiers per definition
+export const getAchievementProgress = async (userId: string) => {
+  const metrics = await loadMetrics(userId, ACHIEVEMENT_CATALOG);
+  const awarded = await prisma.achievement.findMany({
+    where: { userId, key: { not: null } },
+    select: { key: true, unlockedAt: true }
+  });
+
+  return ACHIEVEMENT_CATALOG.map(definition => {
+    const current = metrics[definition.metric] ?? 0;
+    const tiers = definition.tiers.map(tier => {
+      const award = awarded.find(a => a.key === achievementKey(definition, tier));
+      return {
+        ...tier,
+        key: achievementKey(definition, tier),
+        unlocked: !!award,
+        unlockedAt: award?.unlockedAt ?? null
+      };
+    });
+
+    return {
+      id: definition.id,
+      type: definition.type,
+      icon: definition.icon,
+      current,
+      tiers,
+      nextTier: tiers.find(tier => !tier.unlocked) ?? null
+    };
+  });
+};
@@ -0,0 +1,337 @@
+import YAML from 'yaml';
+import { checkExerciseContent, EXERCISE_TYPES, ExercisePair, readPairs } from './grading';
+import { DIFFICULTIES } from './unlocking';
+
+// Course files describe one language: its sections, units and skills, the
+// lessons in them and their exercises. Bump COURSE_FILE_VERSION when the
+// shape changes and keep reading older versions. Version 1 files have no
+// sections, only lessons.
+export const COURSE_FILE_VERSION = 2;
+export const SUPPORTED_COURSE_FILE_VERSIONS = [1, 2];
+
+export type CourseFileFormat = 'json' | 'yaml';
+
+export interface CourseFileExercise {
+  key?: string;
+  type: string;
+  question: string;
+  correctAnswer?: string; // derived from pairs for match_pairs
+  acceptedAnswers?: string[];
+  options?: string[];
+  tokens?: string[];
+  distractors?: string[];
+  pairs?: ExercisePair[];
+  explanation?: string | null;
+  points?: number;
+  isActive?: boolean;
+}
+
+export interface CourseFileLesson {
+  key?: string;
+  title: string;
+  description?: string | null;
+  difficulty?: string;
+  isActive?: boolean;
+  exercises: CourseFileExercise[];
+}
+
+export interface CourseFileSkill {
+  title: string;
+  icon?: string | null;
+  isActive?: boolean;
+  lessons: CourseFileLesson[];
+}
+
+export interface CourseFileUnit {
+  title: string;
+  description?: string | null;
+  isActive?: boolean;
+  skills: CourseFileSkill[];
+  checkpoint?: CourseFileLesson | null;
+}
+
+export interface CourseFileSection {
+  title: string;
+  description?: string | null;
+  isActive?: boolean;
+  units: CourseFileUnit[];
+}
+
+export interface CourseFile {
+  version: number;
+  language: {
+    code: string;
+    name: string;
+    flag?: string | null;
+    description?: string | null;
+    isActive?: boolean;
+  };
+  sections?: CourseFileSection[];
+  lessons: CourseFileLesson[]; // outside the sections
+}
+
+export interface CourseFileError {
+  path: string;
+  message: string;
+}
+
+export const courseFileFormatFor = (filename: string): CourseFileFormat =>
+  /\.ya?ml$/i.test(filename) ? 'yaml' : 'json';
+
+export const parseCourseFile = (text: string, format: CourseFileFormat): unknown =>
+  format === 'yaml' ? YAML.parse(text) : JSON.parse(text);
+
+export const serializeCourseFile = (course: CourseFile, format: CourseFileFormat) =>
+  format === 'yaml' ? YAML.stringify(course) : `${JSON.stringify(course, null, 2)}\n`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Collects errors while walking the file so every problem is reported at once
+const createChecker = () => {
+  const errors: CourseFileError[] = [];
+
+  const fail = (path: string, message: string) => {
+    errors.push({ path, message });
+  };
+
+  const string = (
+    obj: Record<string, unknown>,
+    field: string,
+    path: string,
+    { required = false, nullable = false } = {}
+  ) => {
+    const value = obj[field];
+    if (value === undefined || (nullable && value === null)) {
+      if (required) fail(`${path}.${field}`, 'is required');
+      return;
+    }
+    if (typeof value !== 'string' || (required && value.trim() === '')) {
+      fail(`${path}.${field}`, required ? 'must be a non-empty string' : 'must be a string');
+    }
+  };
+
+  const boolean = (obj: Record<string, unknown>, field: string, path: string) => {
+    if (obj[field] !== undefined && typeof obj[field] !== 'boolean') {
+      fail(`${path}.${field}`, 'must be true or false');
+    }
+  };
+
+  const stringArray = (obj: Record<string, unknown>, field: string, path: string) => {
+    const value = obj[field];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      fail(`${path}.${field}`, 'must be a list of strings');
+      return;
+    }
+    value.forEach((item, i) => {
+      if (typeof item !== 'string') fail(`${path}.${field}[${i}]`, 'must be a string');
+    });
+  };
+
+  const pairs = (obj: Record<string, unknown>, field: string, path: string) => {
+    const value = obj[field];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      fail(`${path}.${field}`, 'must be a list of { left, right } pairs');
+      return;
+    }
+    value.forEach((item, i) => {
+      if (!isObject(item)) {
+        fail(`${path}.${field}[${i}]`, 'must be an object');
+        return;
+      }
+      string(item, 'left', `${path}.${field}[${i}]`, { required: true });
+      string(item, 'right', `${path}.${field}[${i}]`, { required: true });
+    });
+  };
+
+  const oneOf = (obj: Record<string, unknown>, field: string, path: string, allowed: string[], required = false) => {
+    const value = obj[field];
+    if (value === undefined) {
+      if (required) fail(`${path}.${field}`, 'is required');
+      return;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      fail(`${path}.${field}`, `must be one of: ${allowed.join(', ')}`);
+    }
+  };
+
+  // Keys identify lessons and exercises across imports, so they must be unique
+  const uniqueKeys = (items: { value: unknown; path: string }[]) => {
+    const seen = new Set<string>();
+    items.forEach(({ value, path }) => {
+      if (!isObject(value) || typeof value.key !== 'string') return;
+      if (seen.has(value.key)) fail(`${path}.key`, `duplicate key "${value.key}"`);
+      seen.add(value.key);
+    });
+  };
+
+  // Calls check for each item of a list field and returns the items
+  const list = (
+    obj: Record<string, unknown>,
+    field: string,
+    path: string,
+    check: (item: unknown, path: string) => void,
+    { required = true } = {}
+  ) => {
+    const value = obj[field];
+    if (value === undefined && !required) return [];
+    if (!Array.isArray(value)) {
+      fail(`${path ? `${path}.` : ''}${field}`, 'must be a list');
+      return [];
+    }
+    return value.map((item, i) => {
+      const itemPath = `${path ? `${path}.` : ''}${field}[${i}]`;
+      check(item, itemPath);
+      return { value: item as unknown, path: itemPath };
+    });
+  };
+
+  return { errors, fail, string, boolean, stringArray, pairs, oneOf, uniqueKeys, list };
+};
+
+type Checker = ReturnType<typeof createChecker>;
+
+const checkExercise = (checker: Checker, exercise: unknown, path: string) => {
+  if (!isObject(exercise)) {
+    checker.fail(path, 'must be an object');
+    return;
+  }
+
+  checker.string(exercise, 'key', path);
+  checker.oneOf(exercise, 'type', path, EXERCISE_TYPES, true);
+  checker.string(exercise, 'question', path, { required: true });
+  checker.string(exercise, 'correctAnswer', path, { required: exercise.type !== 'match_pairs' });
+  checker.stringArray(exercise, 'acceptedAnswers', path);
+  checker.stringArray(exercise, 'options', path);
+  checker.stringArray(exercise, 'tokens', path);
+  checker.stringArray(exercise, 'distractors', path);
+  checker.pairs(exercise, 'pairs', path);
+  checker.string(exercise, 'explanation', path, { nullable: true });
+  checker.boolean(exercise, 'isActive', path);
+
+  const { points } = exercise;
+  if (points !== undefined && (!Number.isInteger(points) || (points as number) < 0)) {
+    checker.fail(`${path}.points`, 'must be a non-negative integer');
+  }
+
+  if (typeof exercise.type === 'string' &&
+    (typeof exercise.correctAnswer === 'string' || exercise.type === 'match_pairs')) {
+    const list = (value: unknown) => Array.isArray(value) ? value as string[] : [];
+    const contentError = checkExerciseContent({
+      type: exercise.type,
+      correctAnswer: (exercise.correctAnswer as string | undefined) ?? '',
+      acceptedAnswers: list(exercise.acceptedAnswers),
+      options: list(exercise.options),
+      tokens: list(exercise.tokens),
+      distractors: list(exercise.distractors),
+      pairs: readPairs(exercise.pairs)
+    });
+    if (contentError) checker.fail(`${path}.${contentError.field}`, contentError.message);
+  }
+};
+
+const checkLesson = (checker: Checker, lesson: unknown, path: string) => {
+  if (!isObject(lesson)) {
+    checker.fail(path, 'must be an object');
+    return;
+  }
+
+  checker.string(lesson, 'key', path);
+  checker.string(lesson, 'title', path, { required: true });
+  checker.string(lesson, 'description', path, { nullable: true });
+  checker.oneOf(lesson, 'difficulty', path, DIFFICULTIES);
+  checker.boolean(lesson, 'isActive', path);
+
+  checker.uniqueKeys(
+    checker.list(lesson, 'exercises', path, (exercise, p) => checkExercise(checker, exercise, p))
+  );
+};
+
+// Checks the sections and returns every lesson in them, so lesson keys can
+// be checked across the whole file
+const checkSections = (checker: Checker, data: Record<string, unknown>) => {
+  const lessons: { value: unknown; path: string }[] = [];
+  const checkLessons = (obj: Record<string, unknown>, path: string) => {
+    lessons.push(...checker.list(obj, 'lessons', path, (lesson, p) => checkLesson(checker, lesson, p)));
+  };
+
+  checker.list(data, 'sections', '', (section, sectionPath) => {
+    if (!isObject(section)) {
+      checker.fail(sectionPath, 'must be an object');
+      return;
+    }
+    checker.string(section, 'title', sectionPath, { required: true });
+    checker.string(section, 'description', sectionPath, { nullable: true });
+    checker.boolean(section, 'isActive', sectionPath);
+
+    checker.list(section, 'units', sectionPath, (unit, unitPath) => {
+      if (!isObject(unit)) {
+        checker.fail(unitPath, 'must be an object');
+        return;
+      }
+      checker.string(unit, 'title', unitPath, { required: true });
+      checker.string(unit, 'description', unitPath, { nullable: true });
+      checker.boolean(unit, 'isActive', unitPath);
+
+      checker.list(unit, 'skills', unitPath, (skill, skillPath) => {
+        if (!isObject(skill)) {
+          checker.fail(skillPath, 'must be an object');
+          return;
+        }
+        checker.string(skill, 'title', skillPath, { required: true });
+        checker.string(skill, 'icon', skillPath, { nullable: true });
+        checker.boolean(skill, 'isActive', skillPath);
+        checkLessons(skill, skillPath);
+      });
+
+      if (unit.checkpoint !== undefined && unit.checkpoint !== null) {
+        checkLesson(checker, unit.checkpoint, `${unitPath}.checkpoint`);
+        lessons.push({ value: unit.checkpoint, path: `${unitPath}.checkpoint` });
+      }
+    });
+  }, { required: false });
+
+  return lessons;
+};
+
+// Check a parsed course file. Returns every problem found, each with the
+// path of the offending value, e.g.
+// sections[0].units[1].skills[0].lessons[2].exercises[0].type
+export const validateCourseFile = (data: unknown):
+  { course: CourseFile } | { errors: CourseFileError[] } => {
+  const checker = createChecker();
+
+  if (!isObject(data)) {
+    return { errors: [{ path: '', message: 'must be an object' }] };
+  }
+
+  if (!SUPPORTED_COURSE_FILE_VERSIONS.includes(data.version as number)) {
+    checker.fail('version', `must be one of: ${SUPPORTED_COURSE_FILE_VERSIONS.join(', ')}`);
+  }
+
+  if (!isObject(data.language)) {
+    checker.fail('language', 'must be an object');
+  } else {
+    checker.string(data.language, 'code', 'language', { required: true });
+    checker.string(data.language, 'name', 'language', { required: true });
+    checker.string(data.language, 'flag', 'language', { nullable: true });
+    checker.string(data.language, 'description', 'language', { nullable: true });
+    checker.boolean(data.language, 'isActive', 'language');
+  }
+
+  if (data.version === 1 && data.sections !== undefined) {
+    checker.fail('sections', `needs version ${COURSE_FILE_VERSION}`);
+  }
+
+  checker.uniqueKeys([
+    ...checkSections(checker, data),
+    ...checker.list(data, 'lessons', '', (lesson, p) => checkLesson(checker, lesson, p))
+  ]);
+
+  if (checker.errors.length > 0) {
+    return { errors: checker.errors };
+  }
+  return { course: data as unknown as CourseFile };
+};
@@ -0,0 +1,438 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import {
+  COURSE_FILE_VERSION,
+  CourseFile,
+  CourseFileError,
+  CourseFileExercise,
+  CourseFileLesson,
+  CourseFileSection
+} from './courseFile';
+import { flattenCurriculum, getCurriculum } from './curriculum';
+import { describePairs, readPairs } from './grading';
+import {
+  diffLessonContent,
+  EMPTY_LESSON_CONTENT,
+  recordPublishedVersion,
+  snapshotLesson
+} from './lessonVersions';
+
+interface ImportCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deactivated: number;
+}
+
+export interface CourseImportSummary {
+  language: { id: string; code: string; created: boolean };
+  structure: ImportCounts; // sections, units and skills
+  lessons: ImportCounts;
+  exercises: ImportCounts;
+  draftsDiscarded: number;
+}
+
+const emptyCounts = (): ImportCounts => ({ created: 0, updated: 0, unchanged: 0, deactivated: 0 });
+
+const hasChanges = (current: Record<string, unknown>, next: Record<string, unknown>) =>
+  Object.entries(next).some(([field, value]) => JSON.stringify(current[field]) !== JSON.stringify(value));
+
+interface Keyed {
+  id: string;
+  key?: string | null;
+}
+
+type Row = Keyed & { isActive: boolean };
+
+// Pair each item in the file with an existing row: by key when the file
+// gives one, otherwise with the next row that has no key. Rows must come in
+// the order they're exported, so a file re-imports onto the rows it came from.
+const matchExisting = <T extends Keyed>(keys: (string | undefined)[], existing: T[]) => {
+  const keyless = existing.filter(row => !row.key);
+  let next = 0;
+  return keys.map(key => key ? existing.find(row => row.key === key) : keyless[next++]);
+};
+
+const lessonData = (lesson: CourseFileLesson) => ({
+  key: lesson.key ?? null,
+  title: lesson.title,
+  description: lesson.description ?? null,
+  difficulty: lesson.difficulty ?? 'beginner',
+  isActive: lesson.isActive ?? true
+});
+
+const exerciseData = (exercise: CourseFileExercise, order: number) => {
+  const pairs = (exercise.pairs ?? []).map(({ left, right }) => ({ left, right }));
+  return {
+    key: exercise.key ?? null,
+    type: exercise.type,
+    question: exercise.question,
+    correctAnswer: exercise.type === 'match_pairs' ? describePairs(pairs) : exercise.correctAnswer ?? '',
+    acceptedAnswers: exercise.acceptedAnswers ?? [],
+    options: exercise.options ?? [],
+    tokens: exercise.tokens ?? [],
+    distractors: exercise.distractors ?? [],
+    pairs,
+    explanation: exercise.explanation ?? null,
+    points: exercise.points ?? 10,
+    isActive: exercise.isActive ?? true,
+    order
+  };
+};
+
+// Rows no longer in the file are deactivated and moved after the imported
+// ones rather than deleted, so learners keep their progress and history
+const deactivateMissing = async (
+  rows: Row[],
+  matched: (Keyed | undefined)[],
+  counts: ImportCounts,
+  update: (id: string, data: { isActive: boolean; order: number }) => Promise<unknown>
+) => {
+  const matchedIds = new Set(matched.filter(Boolean).map(row => row!.id));
+  const missing = rows.filter(row => !matchedIds.has(row.id));
+
+  for (const [index, row] of missing.entries()) {
+    await update(row.id, { isActive: false, order: matched.length + index + 1 });
+    if (row.isActive) counts.deactivated += 1;
+  }
+};
+
+// Create or update rows to match the file's items, in order, and deactivate
+// the rest. Returns the id of each item's row.
+const syncRows = async <I extends object, D extends { order: number }>(
+  items: I[],
+  existing: (Row & Record<string, unknown>)[],
+  counts: ImportCounts,
+  dataFor: (item: I, order: number) => D,
+  store: {
+    create: (data: D) => Promise<{ id: string }>;
+    update: (id: string, data: Partial<D> | { isActive: boolean; order: number }) => Promise<unknown>;
+  }
+) => {
+  const matched = matchExisting(items.map(item => (item as { key?: string }).key), existing);
+  const rows = items.map((item, index) => dataFor(item, index + 1));
+  const ids: string[] = [];
+
+  // Keys are unique among siblings, so free every key that moves to another
+  // row before storing any, or two rows trading keys would clash
+  for (const [index, current] of matched.entries()) {
+    const key = (rows[index] as { key?: string | null }).key;
+    if (current?.key && key !== undefined && key !== current.key) {
+      await store.update(current.id, { key: null } as unknown as Partial<D>);
+      current.key = null;
+    }
+  }
+
+  for (const [index, data] of rows.entries()) {
+    const current = matched[index];
+
+    if (!current) {
+      ids.push((await store.create(data)).id);
+      counts.created += 1;
+      continue;
+    }
+
+    if (hasChanges(current, data)) {
+      await store.update(current.id, data);
+      counts.updated += 1;
+    } else {
+      counts.unchanged += 1;
+    }
+    ids.push(current.id);
+  }
+
+  await deactivateMissing(existing, matched, counts, store.update);
+  return ids;
+};
+
+const importExercises = async (
+  tx: Prisma.TransactionClient,
+  lessonId: string,
+  exercises: CourseFileExercise[],
+  counts: ImportCounts
+) => {
+  await syncRows(
+    exercises,
+    await tx.exercise.findMany({ where: { lessonId }, orderBy: { order: 'asc' } }),
+    counts,
+    exerciseData,
+    {
+      create: data => tx.exercise.create({ data: { ...data, lessonId } }),
+      update: (id, data) => tx.exercise.update({ where: { id }, data })
+    }
+  );
+};
+
+interface LessonEntry {
+  lesson: CourseFileLesson;
+  order: number;
+  // Undefined for version 1 files, which leave lessons already placed in
+  // the structure where they are
+  placement?: { skillId: string | null; checkpointUnitId: string | null };
+}
+
+// Sections, units and skills have no keys and are matched by position
+// within their parent. Returns the lessons in them with their placement.
+const importSections = async (
+  tx: Prisma.TransactionClient,
+  languageId: string,
+  sections: CourseFileSection[],
+  counts: ImportCounts
+) => {
+  const entries: LessonEntry[] = [];
+  const orderBy = { order: 'asc' } as const;
+
+  const sectionIds = await syncRows(
+    sections,
+    await tx.section.findMany({ where: { languageId }, orderBy }),
+    counts,
+    (section, order) => ({
+      title: section.title,
+      description: section.description ?? null,
+      isActive: section.isActive ?? true,
+      order
+    }),
+    {
+      create: data => tx.section.create({ data: { ...data, languageId } }),
+      update: (id, data) => tx.section.update({ where: { id }, data })
+    }
+  );
+
+  for (const [sectionIndex, section] of sections.entries()) {
+    const sectionId = sectionIds[sectionIndex];
+    const unitIds = await syncRows(
+      section.units,
+      await tx.unit.findMany({ where: { sectionId }, orderBy }),
+      counts,
+      (unit, order) => ({
+        title: unit.title,
+        description: unit.description ?? null,
+        isActive: unit.isActive ?? true,
+        order
+      }),
+      {
+        create: data => tx.unit.create({ data: { ...data, sectionId } }),
+        update: (id, data) => tx.unit.update({ where: { id }, data })
+      }
+    );
+
+    for (const [unitIndex, unit] of section.units.entries()) {
+      const unitId = unitIds[unitIndex];
+      const skillIds = await syncRows(
+        unit.skills,
+        await tx.skill.findMany({ where: { unitId }, orderBy }),
+        counts,
+        (skill, order) => ({
+          title: skill.title,
+          icon: skill.icon ?? null,
+          isActive: skill.isActive ?? true,
+          order
+        }),
+        {
+          create: data => tx.skill.create({ data: { ...data, unitId } }),
+          update: (id, data) => tx.skill.update({ where: { id }, data })
+        }
+      );
+
+      unit.skills.forEach((skill, skillIndex) => {
+        skill.lessons.forEach((lesson, lessonIndex) => {
+          entries.push({
+            lesson,
+            order: lessonIndex + 1,
+            placement: { skillId: skillIds[skillIndex], checkpointUnitId: null }
+          });
+        });
+      });
+      if (unit.checkpoint) {
+        entries.push({
+          lesson: unit.checkpoint,
+          order: 1,
+          placement: { skillId: null, checkpointUnitId: unitId }
+        });
+      }
+    }
+  }
+
+  return entries;
+};
+
+// Create or update a language's content from a validated course file.
+// Importing the same file twice changes nothing the second time. Every
+// lesson whose content changes gets a new published version.
+export const importCourse = async (
+  course: CourseFile,
+  authorId: string | null = null
+): Promise<CourseImportSummary | { errors: CourseFileError[] }> => {
+  const { code, name, flag, description, isActive } = course.language;
+
+  const nameClash = await prisma.language.findFirst({
+    where: { name, code: { not: code } },
+    select: { code: true }
+  });
+  if (nameClash) {
+    return { errors: [{ path: 'language.name', message: `is already used by language "${nameClash.code}"` }] };
+  }
+
+  return prisma.$transaction(async tx => {
+    const existingLanguage = await tx.language.findUnique({ where: { code } });
+    const languageData = {
+      name,
+      flag: flag ?? null,
+      description: description ?? null,
+      isActive: isActive ?? true
+    };
+    const language = existingLanguage
+      ? await tx.language.update({ where: { code }, data: languageData })
+      : await tx.language.create({ data: { ...languageData, code } });
+
+    const summary: CourseImportSummary = {
+      language: { id: language.id, code, created: !existingLanguage },
+      structure: emptyCounts(),
+      lessons: emptyCounts(),
+      exercises: emptyCounts(),
+      draftsDiscarded: 0
+    };
+
+    // Existing lessons in the order they're exported, read before the
+    // structure changes
+    const position = new Map(
+      flattenCurriculum(await getCurriculum(language.id, { includeInactive: true, client: tx }))
+        .map((lesson, index) => [lesson.id, index])
+    );
+    const existingLessons = (await tx.lesson.findMany({ where: { languageId: language.id } }))
+      .sort((a, b) => (position.get(a.id) ?? position.size) - (position.get(b.id) ?? position.size));
+
+    const entries: LessonEntry[] = [
+      ...course.version === 1
+        ? []
+        : await importSections(tx, language.id, course.sections ?? [], summary.structure),
+      ...course.lessons.map((lesson, index) => ({
+        lesson,
+        order: index + 1,
+        ...(course.version !== 1 && { placement: { skillId: null, checkpointUnitId: null } })
+      }))
+    ];
+    const matched = matchExisting(entries.map(entry => entry.lesson.key), existingLessons);
+
+    for (const [index, { lesson, order, placement }] of entries.entries()) {
+      const current = matched[index];
+      const keepPlacement = !placement && (current?.skillId || current?.checkpointUnitId);
+      const placed = { ...placement, order };
+      const data = keepPlacement ? lessonData(lesson) : { ...lessonData(lesson), ...placed };
+      const before = current ? (await snapshotLesson(tx, current.id))! : EMPTY_LESSON_CONTENT;
+      let lessonId: string;
+
+      // A unit has one checkpoint, so take the place of the lesson that was
+      const checkpointUnitId = placement?.checkpointUnitId;
+      if (checkpointUnitId && checkpointUnitId !== current?.checkpointUnitId) {
+        await tx.lesson.updateMany({
+          where: { checkpointUnitId },
+          data: { checkpointUnitId: null }
+        });
+      }
+
+      if (!current) {
+        lessonId = (await tx.lesson.create({
+          data: { ...lessonData(lesson), ...placed, languageId: language.id }
+        })).id;
+        summary.lessons.created += 1;
+      } else {
+        lessonId = current.id;
+        if (hasChanges(current, data)) {
+          await tx.lesson.update({ where: { id: lessonId }, data });
+          summary.lessons.updated += 1;
+        } else {
+          summary.lessons.unchanged += 1;
+        }
+      }
+
+      await importExercises(tx, lessonId, lesson.exercises, summary.exercises);
+
+      const after = (await snapshotLesson(tx, lessonId))!;
+      if (diffLessonContent(before, after).length > 0) {
+        await recordPublishedVersion(tx, lessonId, before, after, { authorId });
+
+        // A draft started from the old content would quietly undo the
+        // import when published
+        const { count } = await tx.lessonVersion.deleteMany({ where: { lessonId, status: 'draft' } });
+        summary.draftsDiscarded += count;
+      }
+    }
+
+    await deactivateMissing(existingLessons, matched, summary.lessons, (id, data) =>
+      tx.lesson.update({ where: { id }, data })
+    );
+
+    return summary;
+  }, { timeout: 60000 });
+};
+
+type ExportedLesson = Prisma.LessonGetPayload<{ include: { exercises: true } }>;
+
+const toCourseFileLesson = (lesson: ExportedLesson): CourseFileLesson => ({
+  ...(lesson.key && { key: lesson.key }),
+  title: lesson.title,
+  description: lesson.description,
+  difficulty: lesson.difficulty,
+  isActive: lesson.isActive,
+  exercises: lesson.exercises.map(exercise => ({
+    ...(exercise.key && { key: exercise.key }),
+    type: exercise.type,
+    question: exercise.question,
+    correctAnswer: exercise.correctAnswer,
+    acceptedAnswers: exercise.acceptedAnswers,
+    options: exercise.options,
+    ...(exercise.tokens.length > 0 && { tokens: exercise.tokens }),
+    ...(exercise.distractors.length > 0 && { distractors: exercise.distractors }),
+    ...(exercise.type === 'match_pairs' && { pairs: readPairs(exercise.pairs) }),
+    explanation: exercise.explanation,
+    points: exercise.points,
+    isActive: exercise.isActive
+  }))
+});
+
+// Build a course file from a language's current content, inactive items
+// included, with lessons in the order learners take them
+export const exportCourse = async (code: string): Promise<CourseFile | null> => {
+  const language = await prisma.language.findUnique({ where: { code } });
+  if (!language) return null;
+
+  const curriculum = await getCurriculum(language.id, { includeInactive: true });
+  const lessons = await prisma.lesson.findMany({
+    where: { languageId: language.id },
+    include: {
+      exercises: { orderBy: { order: 'asc' } }
+    }
+  });
+  const lessonsById = new Map(lessons.map(lesson => [lesson.id, lesson]));
+  const fileLesson = ({ id }: { id: string }) => toCourseFileLesson(lessonsById.get(id)!);
+
+  return {
+    version: COURSE_FILE_VERSION,
+    language: {
+      code: language.code,
+      name: language.name,
+      flag: language.flag,
+      description: language.description,
+      isActive: language.isActive
+    },
+    sections: curriculum.sections.map(section => ({
+      title: section.title,
+      description: section.description,
+      isActive: section.isActive,
+      units: section.units.map(unit => ({
+        title: unit.title,
+        description: unit.description,
+        isActive: unit.isActive,
+        skills: unit.skills.map(skill => ({
+          title: skill.title,
+          icon: skill.icon,
+          isActive: skill.isActive,
+          lessons: skill.lessons.map(fileLesson)
+        })),
+        ...(unit.checkpoint && { checkpoint: fileLesson(unit.checkpoint) })
+      }))
+    })),
+    lessons: curriculum.unassignedLessons.map(fileLesson)
+  };
+};
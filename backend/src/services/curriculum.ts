@@ -0,0 +1,173 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+const lessonSelect = {
+  id: true,
+  title: true,
+  description: true,
+  order: true,
+  difficulty: true,
+  isActive: true,
+  skillId: true,
+  checkpointUnitId: true,
+  _count: {
+    select: {
+      exercises: {
+        where: { isActive: true }
+      }
+    }
+  }
+} as const;
+
+const loadCurriculum = async (
+  client: Prisma.TransactionClient,
+  languageId: string,
+  includeInactive: boolean
+) => {
+  const active = includeInactive ? {} : { isActive: true };
+
+  const sections = await client.section.findMany({
+    where: { languageId, ...active },
+    orderBy: { order: 'asc' },
+    include: {
+      units: {
+        where: active,
+        orderBy: { order: 'asc' },
+        include: {
+          checkpoint: { select: lessonSelect },
+          skills: {
+            where: active,
+            orderBy: { order: 'asc' },
+            include: {
+              lessons: {
+                where: active,
+                orderBy: { order: 'asc' },
+                select: lessonSelect
+              }
+            }
+          }
+        }
+      }
+    }
+  });
+
+  // Lessons not yet placed in the structure follow it, in their own order
+  const unassignedLessons = await client.lesson.findMany({
+    where: { languageId, skillId: null, checkpointUnitId: null, ...active },
+    orderBy: { order: 'asc' },
+    select: lessonSelect
+  });
+
+  return { sections, unassignedLessons };
+};
+
+// Pass a transaction client to read changes made inside the transaction
+export const getCurriculum = async (
+  languageId: string,
+  { includeInactive = false, client = prisma as Prisma.TransactionClient } = {}
+) => {
+  const curriculum = await loadCurriculum(client, languageId, includeInactive);
+
+  // A to-one include can't be filtered, so drop inactive checkpoints here
+  if (!includeInactive) {
+    for (const unit of curriculum.sections.flatMap(s => s.units)) {
+      if (unit.checkpoint && !unit.checkpoint.isActive) unit.checkpoint = null;
+    }
+  }
+  return curriculum;
+};
+
+export type Curriculum = Awaited<ReturnType<typeof getCurriculum>>;
+export type CurriculumLesson = Curriculum['unassignedLessons'][number];
+
+// Every lesson in the order learners take them: each unit's skills and
+// lessons, then its checkpoint, then lessons outside the structure
+export const flattenCurriculum = (curriculum: Curriculum): CurriculumLesson[] => [
+  ...curriculum.sections.flatMap(section =>
+    section.units.flatMap(unit => [
+      ...unit.skills.flatMap(skill => skill.lessons),
+      ...(unit.checkpoint ? [unit.checkpoint] : [])
+    ])
+  ),
+  ...curriculum.unassignedLessons
+];
+
+export const getCourseLessons = async (languageId: string) =>
+  flattenCurriculum(await getCurriculum(languageId));
+
+export interface Completion {
+  totalLessons: number;
+  completedLessons: number;
+  completionRate: number;
+  isCompleted: boolean;
+}
+
+export const rollUpCompletion = (lessons: { isCompleted: boolean }[]): Completion => {
+  const completedLessons = lessons.filter(l => l.isCompleted).length;
+  return {
+    totalLessons: lessons.length,
+    completedLessons,
+    completionRate: lessons.length > 0 ? (completedLessons / lessons.length) * 100 : 0,
+    isCompleted: lessons.length > 0 && completedLessons === lessons.length
+  };
+};
+
+interface LessonState {
+  isCompleted: boolean;
+  isUnlocked: boolean;
+}
+
+// Shape the curriculum into the nested tree the API returns, decorating
+// each lesson (e.g. with the user's progress) and rolling completion up
+// to every skill, unit and section
+export const buildCourseTree = <T extends LessonState>(
+  curriculum: Curriculum,
+  decorate: (lesson: CurriculumLesson) => T
+) => {
+  const sections = curriculum.sections.map(section => {
+    const units = section.units.map(unit => {
+      const skills = unit.skills.map(skill => {
+        const lessons = skill.lessons.map(decorate);
+        return {
+          id: skill.id,
+          title: skill.title,
+          icon: skill.icon,
+          order: skill.order,
+          lessons,
+          completion: rollUpCompletion(lessons)
+        };
+      });
+
+      const checkpoint = unit.checkpoint ? decorate(unit.checkpoint) : null;
+      const unitLessons = [...skills.flatMap(s => s.lessons), ...(checkpoint ? [checkpoint] : [])];
+
+      return {
+        id: unit.id,
+        title: unit.title,
+        description: unit.description,
+        order: unit.order,
+        isUnlocked: unitLessons[0]?.isUnlocked ?? false,
+        skills,
+        checkpoint,
+        completion: rollUpCompletion(unitLessons)
+      };
+    });
+
+    return {
+      id: section.id,
+      title: section.title,
+      description: section.description,
+      order: section.order,
+      units,
+      completion: rollUpCompletion(units.flatMap(unit => [
+        ...unit.skills.flatMap(s => s.lessons),
+        ...(unit.checkpoint ? [unit.checkpoint] : [])
+      ]))
+    };
+  });
+
+  return {
+    sections,
+    unassignedLessons: curriculum.unassignedLessons.map(decorate)
+  };
+};
@@ -0,0 +1,56 @@
+import { readPairs } from './grading';
+import { exerciseAudioSelect, withAudio } from './media';
+
+// Fields exercise payloads are built from beyond the plain question ones.
+// Spread into an exercise select and pass the result to toExercisePayload.
+export const exercisePayloadSelect = {
+  ...exerciseAudioSelect,
+  tokens: true,
+  distractors: true,
+  pairs: true
+} as const;
+
+const shuffle = <T>(items: T[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Word bank tiles are the answer's tokens plus the distractors, shuffled
+// so their order gives nothing away
+const withTiles = <T extends { type: string; tokens: string[]; distractors: string[] }>({
+  tokens,
+  distractors,
+  ...exercise
+}: T) => ({
+  ...exercise,
+  tiles: exercise.type === 'word_bank' ? shuffle([...tokens, ...distractors]) : null
+});
+
+// Match-the-pairs columns are shuffled independently so rows don't line up
+const withColumns = <T extends { type: string; pairs: unknown }>({ pairs, ...exercise }: T) => {
+  const items = readPairs(pairs);
+  return {
+    ...exercise,
+    columns: exercise.type === 'match_pairs'
+      ? {
+          left: shuffle(items.map(pair => pair.left)),
+          right: shuffle(items.map(pair => pair.right))
+        }
+      : null
+  };
+};
+
+// An exercise as learners see it: playable audio, shuffled tiles and
+// columns, nothing that reveals the answer
+export const toExercisePayload = <T extends {
+  type: string;
+  audioId: string | null;
+  slowAudioId: string | null;
+  tokens: string[];
+  distractors: string[];
+  pairs: unknown;
+}>(exercise: T) => withColumns(withTiles(withAudio(exercise)));
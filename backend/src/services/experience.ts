@@ -0,0 +1,48 @@
+import { prisma } from '../db';
+import { joinCurrentLeague } from './leagues';
+
+export const levelForExperience = (experience: number) => Math.floor(experience / 100) + 1;
+
+export interface ExperienceSource {
+  source: 'lesson' | 'practice';
+  languageId?: string;
+}
+
+// Add XP to a user, recompute their level and log the gain so XP can be
+// totalled per time window and per language
+export const awardExperience = async (
+  userId: string,
+  amount: number,
+  { source, languageId }: ExperienceSource
+) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { experience: true, level: true }
+  });
+
+  if (!user) return null;
+
+  const newExperience = user.experience + amount;
+  const newLevel = levelForExperience(newExperience);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      experience: newExperience,
+      level: newLevel
+    }
+  });
+
+  if (amount > 0) {
+    await prisma.experienceEvent.create({
+      data: { userId, amount, source, languageId }
+    });
+    await joinCurrentLeague(userId);
+  }
+
+  return {
+    experience: newExperience,
+    level: newLevel,
+    previousLevel: user.level
+  };
+};
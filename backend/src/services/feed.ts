@@ -0,0 +1,82 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export type FeedEventType = 'lesson_complete' | 'level_up' | 'achievement' | 'streak_milestone';
+
+export interface FeedEventInput {
+  type: FeedEventType;
+  data: Prisma.InputJsonObject;
+}
+
+export const STREAK_MILESTONES = [7, 14, 30, 50, 100, 200, 365];
+
+interface ProgressEventContext {
+  lesson?: { id: string; title: string; score: number; totalPoints: number };
+  experience?: { level: number; previousLevel: number } | null;
+  streak?: { streak: number; extended: boolean } | null;
+  achievements?: { key: string | null; type: string; title: string; icon: string | null }[];
+}
+
+// Achievement types already announced by their own event
+const ANNOUNCED_ACHIEVEMENT_TYPES = ['level_up', 'streak'];
+
+// Turn the outcome of a completed lesson, practice session or other action
+// into the feed events it should produce
+export const buildProgressEvents = ({
+  lesson,
+  experience,
+  streak,
+  achievements = []
+}: ProgressEventContext): FeedEventInput[] => {
+  const events: FeedEventInput[] = [];
+
+  if (lesson) {
+    events.push({
+      type: 'lesson_complete',
+      data: {
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        score: lesson.score,
+        totalPoints: lesson.totalPoints
+      }
+    });
+  }
+
+  if (experience && experience.level > experience.previousLevel) {
+    events.push({ type: 'level_up', data: { level: experience.level } });
+  }
+
+  if (streak?.extended && STREAK_MILESTONES.includes(streak.streak)) {
+    events.push({ type: 'streak_milestone', data: { streak: streak.streak } });
+  }
+
+  for (const achievement of achievements) {
+    if (ANNOUNCED_ACHIEVEMENT_TYPES.includes(achievement.type)) continue;
+    events.push({
+      type: 'achievement',
+      data: {
+        key: achievement.key,
+        title: achievement.title,
+        icon: achievement.icon
+      }
+    });
+  }
+
+  return events;
+};
+
+export const publishFeedEvents = async (userId: string, events: FeedEventInput[]) => {
+  if (events.length === 0) return;
+
+  await prisma.feedEvent.createMany({
+    data: events.map(event => ({ userId, type: event.type, data: event.data }))
+  });
+};
+
+// Events a user may see: from people they follow whose profile is public
+export const visibleFeedEventsWhere = (viewerId: string): Prisma.FeedEventWhereInput => ({
+  user: {
+    isPrivate: false,
+    followers: { some: { followerId: viewerId } }
+  }
+});
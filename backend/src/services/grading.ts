@@ -0,0 +1,396 @@
+// One row of a match-the-pairs exercise, e.g. cinco ↔ 5
+export type ExercisePair = { left: string; right: string };
+
+export interface GradableExercise {
+  id: string;
+  type: string;
+  correctAnswer: string;
+  acceptedAnswers?: string[];
+  options?: string[];
+  pairs?: unknown; // ExercisePair[] for match_pairs, stored as JSON
+  explanation: string | null;
+  points: number;
+}
+
+// Exercise fields gradeExercise needs
+export const gradingSelect = {
+  id: true,
+  type: true,
+  correctAnswer: true,
+  acceptedAnswers: true,
+  options: true,
+  pairs: true,
+  explanation: true,
+  points: true
+} as const;
+
+// Text for most exercises; for match_pairs, each left item mapped to the
+// right item the learner paired it with
+export type PairAnswer = Record<string, string>;
+export type Answer = string | PairAnswer;
+
+export interface SubmittedAnswer {
+  exerciseId: string;
+  answer: Answer;
+  responseTime?: number; // in milliseconds
+}
+
+// How a submitted answer matched: exactly (after normalisation), only once
+// accents were ignored, within typo distance, or not at all
+export type MatchType = 'exact' | 'accents' | 'typo' | 'none';
+
+export interface ExerciseResult {
+  exerciseId: string;
+  submittedAnswer: string | null; // pair answers as JSON
+  correctAnswer: string;
+  isCorrect: boolean;
+  matchType: MatchType;
+  hint: string | null;
+  pointsEarned: number;
+  explanation: string | null;
+  matchedPairs?: { correct: number; total: number };
+  similarity?: number; // speaking: how close the recognised speech came, 0-1
+}
+
+export interface LessonGrade {
+  results: ExerciseResult[];
+  score: number;
+  totalPoints: number;
+  correctCount: number;
+}
+
+export interface GradingOptions {
+  allowMissingAccents: boolean;
+  allowTypos: boolean;
+}
+
+export const DEFAULT_GRADING_OPTIONS: GradingOptions = {
+  allowMissingAccents: true,
+  allowTypos: true
+};
+
+export const EXERCISE_TYPES = [
+  'multiple_choice', 'fill_blank', 'translation', 'listening', 'word_bank', 'match_pairs', 'speaking'
+];
+
+// How close recognised speech must come to the expected phrase, overridable
+// with SPEAKING_SIMILARITY_THRESHOLD, e.g. 0.9 for stricter grading
+const DEFAULT_SPEAKING_THRESHOLD = 0.8;
+
+export const getSpeakingThreshold = () => {
+  const override = process.env.SPEAKING_SIMILARITY_THRESHOLD;
+  if (override !== undefined && !Number.isNaN(Number(override))) {
+    return Number(override);
+  }
+  return DEFAULT_SPEAKING_THRESHOLD;
+};
+
+// The parts of an exercise that must agree with each other
+export interface ExerciseContent {
+  type: string;
+  correctAnswer: string;
+  acceptedAnswers?: string[];
+  options?: string[];
+  tokens?: string[];
+  distractors?: string[];
+  pairs?: ExercisePair[];
+}
+
+export interface ExerciseContentError {
+  field: string;
+  message: string;
+}
+
+// Exercise types where the learner types free text
+const FREE_TEXT_TYPES = ['translation', 'fill_blank'];
+
+const isPair = (value: unknown): value is ExercisePair =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as ExercisePair).left === 'string' &&
+  typeof (value as ExercisePair).right === 'string';
+
+// Pairs of an exercise as stored in its JSON column
+export const readPairs = (value: unknown): ExercisePair[] =>
+  Array.isArray(value) ? value.filter(isPair) : [];
+
+// The answer key of a match_pairs exercise in readable form, kept in
+// correctAnswer so results and attempt history can show it
+export const describePairs = (pairs: ExercisePair[]) =>
+  pairs.map(pair => `${pair.left} = ${pair.right}`).join(', ');
+
+export const isAnswer = (value: unknown): value is Answer =>
+  typeof value === 'string' ||
+  (typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(v => typeof v === 'string'));
+
+const HINTS: Record<MatchType, string | null> = {
+  exact: null,
+  accents: 'Watch your accents!',
+  typo: 'You have a typo.',
+  none: null
+};
+
+// Lowercase, drop punctuation (including ¿ and ¡) and collapse whitespace
+export const normalizeAnswer = (value: string) =>
+  value
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const stripAccents = (value: string) =>
+  value.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+
+// Words of an answer in sorted order, for comparing which words are used
+const sortedWords = (value: string) => normalizeAnswer(value).split(' ').sort().join(' ');
+
+// Check that an exercise's answer key is usable. Multiple choice options
+// must include the correct answer. A word bank's tokens must spell out the
+// correct answer in order, and each accepted answer (an alternative valid
+// order) must use the same words.
+export const checkExerciseContent = ({
+  type,
+  correctAnswer,
+  acceptedAnswers = [],
+  options = [],
+  tokens = [],
+  distractors = [],
+  pairs = []
+}: ExerciseContent): ExerciseContentError | null => {
+  if (type === 'multiple_choice' && !options.includes(correctAnswer)) {
+    return { field: 'options', message: 'Multiple choice options must include the correct answer' };
+  }
+
+  if (type === 'word_bank') {
+    if (normalizeAnswer(tokens.join(' ')) !== normalizeAnswer(correctAnswer)) {
+      return { field: 'tokens', message: 'Word bank tokens must spell out the correct answer in order' };
+    }
+    if (acceptedAnswers.some(answer => sortedWords(answer) !== sortedWords(correctAnswer))) {
+      return { field: 'acceptedAnswers', message: 'Word bank accepted answers must reorder the tokens' };
+    }
+    if (distractors.some(word => tokens.includes(word))) {
+      return { field: 'distractors', message: 'Word bank distractors must not repeat a token' };
+    }
+  }
+
+  if (type === 'match_pairs') {
+    if (pairs.length < 2) {
+      return { field: 'pairs', message: 'Match the pairs exercises need at least two pairs' };
+    }
+    const lefts = new Set(pairs.map(pair => normalizeAnswer(pair.left)));
+    const rights = new Set(pairs.map(pair => normalizeAnswer(pair.right)));
+    if (lefts.size < pairs.length || rights.size < pairs.length) {
+      return { field: 'pairs', message: 'Each item may appear in only one pair' };
+    }
+  }
+
+  return null;
+};
+
+// Levenshtein distance
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words get no typo allowance so "dos" isn't accepted for "tres"
+const typoAllowance = (expected: string) => {
+  if (expected.length <= 4) return 0;
+  if (expected.length <= 10) return 1;
+  return 2;
+};
+
+// A typo stays inside words: every word keeps its first and last letters
+// and is long enough to allow a slip. Changing an edge letter usually makes
+// a different word ("madre" for "padre") or form ("llama" for "llamas").
+const isTypoWithinWords = (answer: string, target: string) => {
+  const words = answer.split(' ');
+  const targetWords = target.split(' ');
+  if (words.length !== targetWords.length) return false;
+
+  return words.every((word, i) => {
+    const expected = targetWords[i];
+    if (word === expected) return true;
+    return word[0] === expected[0] &&
+      word[word.length - 1] === expected[expected.length - 1] &&
+      editDistance(word, expected) <= typoAllowance(expected);
+  });
+};
+
+const matchAnswer = (
+  submitted: string,
+  expected: string,
+  tolerant: boolean,
+  options: GradingOptions
+): MatchType => {
+  const answer = normalizeAnswer(submitted);
+  const target = normalizeAnswer(expected);
+
+  if (answer === target) return 'exact';
+  if (!tolerant) return 'none';
+
+  const bareAnswer = stripAccents(answer);
+  const bareTarget = stripAccents(target);
+
+  if (options.allowMissingAccents && bareAnswer === bareTarget) return 'accents';
+
+  if (options.allowTypos) {
+    const [a, b] = options.allowMissingAccents ? [bareAnswer, bareTarget] : [answer, target];
+    if (editDistance(a, b) <= typoAllowance(b) && isTypoWithinWords(a, b)) return 'typo';
+  }
+
+  return 'none';
+};
+
+const MATCH_RANK: Record<MatchType, number> = { exact: 3, accents: 2, typo: 1, none: 0 };
+
+// 1 for the same phrase, falling towards 0 as more characters differ.
+// Accents are ignored since recognisers often drop them.
+export const phraseSimilarity = (a: string, b: string) => {
+  const x = stripAccents(normalizeAnswer(a));
+  const y = stripAccents(normalizeAnswer(b));
+  const longest = Math.max(x.length, y.length);
+  return longest === 0 ? 1 : 1 - editDistance(x, y) / longest;
+};
+
+// The answer to a speaking exercise is the transcript of the learner's
+// recording; it passes when close enough to any accepted phrase
+const gradeSpeaking = (exercise: GradableExercise, answer: Answer | null | undefined): ExerciseResult => {
+  const transcript = typeof answer === 'string' ? answer : null;
+  const candidates = [exercise.correctAnswer, ...(exercise.acceptedAnswers ?? [])];
+  const similarity = transcript === null
+    ? 0
+    : Math.max(...candidates.map(candidate => phraseSimilarity(transcript, candidate)));
+  const isCorrect = similarity >= getSpeakingThreshold();
+
+  let matchType: MatchType = 'none';
+  if (similarity === 1) matchType = 'exact';
+  else if (isCorrect) matchType = 'typo';
+
+  return {
+    exerciseId: exercise.id,
+    submittedAnswer: transcript,
+    correctAnswer: exercise.correctAnswer,
+    isCorrect,
+    matchType,
+    hint: matchType === 'typo' ? 'Close! Listen again and work on your pronunciation.' : null,
+    pointsEarned: isCorrect ? exercise.points : 0,
+    explanation: exercise.explanation,
+    similarity: Math.round(similarity * 100) / 100
+  };
+};
+
+// Each correctly matched pair earns its share of the points
+const gradePairs = (exercise: GradableExercise, answer: Answer | null | undefined): ExerciseResult => {
+  const pairs = readPairs(exercise.pairs);
+  const submitted = answer && typeof answer === 'object' ? answer : null;
+
+  const chosen = new Map(Object.entries(submitted ?? {}).map(
+    ([left, right]) => [normalizeAnswer(left), normalizeAnswer(right)]
+  ));
+  const correct = pairs.filter(pair =>
+    chosen.get(normalizeAnswer(pair.left)) === normalizeAnswer(pair.right)
+  ).length;
+  const isCorrect = pairs.length > 0 && correct === pairs.length;
+
+  return {
+    exerciseId: exercise.id,
+    submittedAnswer: submitted ? JSON.stringify(submitted) : null,
+    correctAnswer: exercise.correctAnswer,
+    isCorrect,
+    matchType: isCorrect ? 'exact' : 'none',
+    hint: !isCorrect && correct > 0 ? `${correct} of ${pairs.length} pairs matched.` : null,
+    pointsEarned: pairs.length > 0 ? Math.round(exercise.points * correct / pairs.length) : 0,
+    explanation: exercise.explanation,
+    matchedPairs: { correct, total: pairs.length }
+  };
+};
+
+// Grade a single answer against the exercise's answer key
+export const gradeExercise = (
+  exercise: GradableExercise,
+  answer: Answer | null | undefined,
+  options: GradingOptions = DEFAULT_GRADING_OPTIONS
+): ExerciseResult => {
+  if (exercise.type === 'match_pairs') return gradePairs(exercise, answer);
+  if (exercise.type === 'speaking') return gradeSpeaking(exercise, answer);
+
+  const submittedAnswer = typeof answer === 'string' ? answer : null;
+  const tolerant = FREE_TEXT_TYPES.includes(exercise.type);
+  const candidates = [exercise.correctAnswer, ...(exercise.acceptedAnswers ?? [])];
+
+  let matchType: MatchType = 'none';
+  if (submittedAnswer !== null) {
+    for (const candidate of candidates) {
+      const candidateMatch = matchAnswer(submittedAnswer, candidate, tolerant, options);
+      if (MATCH_RANK[candidateMatch] > MATCH_RANK[matchType]) {
+        matchType = candidateMatch;
+      }
+      if (matchType === 'exact') break;
+    }
+
+    // An answer that is one of the other known answers is a real mistake,
+    // however close it is to the correct one
+    const given = stripAccents(normalizeAnswer(submittedAnswer));
+    const isOtherOption = (exercise.options ?? []).some(option =>
+      !candidates.includes(option) && stripAccents(normalizeAnswer(option)) === given
+    );
+    if (matchType === 'typo' && isOtherOption) matchType = 'none';
+  }
+
+  const isCorrect = matchType !== 'none';
+
+  return {
+    exerciseId: exercise.id,
+    submittedAnswer,
+    correctAnswer: exercise.correctAnswer,
+    isCorrect,
+    matchType,
+    hint: HINTS[matchType],
+    pointsEarned: isCorrect ? exercise.points : 0,
+    explanation: exercise.explanation
+  };
+};
+
+// Grade a full lesson submission. Exercises without an answer count as wrong,
+// answers for exercises outside the lesson are ignored.
+export const gradeLesson = (
+  exercises: GradableExercise[],
+  answers: SubmittedAnswer[],
+  options: GradingOptions = DEFAULT_GRADING_OPTIONS
+): LessonGrade => {
+  const answersByExercise = new Map<string, Answer>();
+  for (const submitted of answers) {
+    if (!answersByExercise.has(submitted.exerciseId)) {
+      answersByExercise.set(submitted.exerciseId, submitted.answer);
+    }
+  }
+
+  const results = exercises.map(exercise =>
+    gradeExercise(exercise, answersByExercise.get(exercise.id), options)
+  );
+
+  return {
+    results,
+    score: results.reduce((sum, r) => sum + r.pointsEarned, 0),
+    totalPoints: exercises.reduce((sum, ex) => sum + ex.points, 0),
+    correctCount: results.filter(r => r.isCorrect).length
+  };
+};
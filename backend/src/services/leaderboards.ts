@@ -0,0 +1,331 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { getStreakStatus, streakSelect } from './streaks';
+
+export type LeaderboardPeriod = 'all' | 'week' | 'month';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['all', 'week', 'month'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods run in UTC; weeks start on Monday
+export const periodStart = (period: LeaderboardPeriod, now: Date = new Date()) => {
+  if (period === 'month') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  if (period === 'week') {
+    const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+    return new Date(midnight - daysSinceMonday * DAY_MS);
+  }
+  return null;
+};
+
+// XP earned per user since a point in time, optionally stopping before `until`
+export const getExperienceSince = async (since: Date, userIds?: string[], until?: Date) => {
+  const totals = await prisma.experienceEvent.groupBy({
+    by: ['userId'],
+    where: {
+      createdAt: { gte: since, ...(until && { lt: until }) },
+      ...(userIds && { userId: { in: userIds } })
+    },
+    _sum: { amount: true }
+  });
+  return new Map(totals.map(t => [t.userId, t._sum.amount ?? 0]));
+};
+
+export interface LeaderboardOptions {
+  period: LeaderboardPeriod;
+  languageId?: string;
+  friendsOf?: string; // Restrict to this user and the people they follow
+  userId?: string; // Caller, whose rank and neighbours are returned
+  limit: number;
+  neighbours: number;
+}
+
+interface Score {
+  userId: string;
+  value: number;
+  tiebreak: number;
+}
+
+interface RankedScore extends Score {
+  rank: number;
+}
+
+interface Ranking {
+  top: RankedScore[];
+  me: RankedScore | null;
+  around: RankedScore[]; // the caller and their neighbours
+  totalRanked: number;
+}
+
+const getFriendIds = async (userId: string) => {
+  const follows = await prisma.follow.findMany({
+    where: { followerId: userId },
+    select: { followingId: true }
+  });
+  return [userId, ...follows.map(f => f.followingId)];
+};
+
+// Language boards rank by course progress: completed lessons, then score
+const getLanguageScores = async (languageId: string, userIds?: string[]): Promise<Score[]> => {
+  const enrollments = await prisma.enrollment.findMany({
+    where: {
+      languageId,
+      isActive: true,
+      ...(userIds && { userId: { in: userIds } })
+    },
+    select: {
+      userId: true,
+      progress: {
+        where: { completed: true },
+        select: { score: true }
+      }
+    }
+  });
+
+  return enrollments.map(enrollment => ({
+    userId: enrollment.userId,
+    value: enrollment.progress.length,
+    tiebreak: enrollment.progress.reduce((sum, p) => sum + p.score, 0)
+  }));
+};
+
+// Only friends boards, which stay small, are scored in memory
+const getExperienceScores = async (period: LeaderboardPeriod, userIds?: string[]): Promise<Score[]> => {
+  const since = periodStart(period);
+
+  if (!since) {
+    const users = await prisma.user.findMany({
+      where: userIds ? { id: { in: userIds } } : {},
+      select: { id: true, experience: true, ...streakSelect }
+    });
+    return users.map(user => ({
+      userId: user.id,
+      value: user.experience,
+      tiebreak: getStreakStatus(user).streak
+    }));
+  }
+
+  const totals = await getExperienceSince(since, userIds);
+  const scores = [...totals].map(([userId, value]) => ({ userId, value, tiebreak: 0 }));
+
+  // Friends with no XP this period still show up on their board
+  for (const userId of userIds ?? []) {
+    if (!totals.has(userId)) scores.push({ userId, value: 0, tiebreak: 0 });
+  }
+  return scores;
+};
+
+const rankScores = (scores: Score[], options: LeaderboardOptions, userIds?: string[]): Ranking => {
+  const ranked = scores
+    .filter(score => score.value > 0 || score.userId === options.userId || !!userIds)
+    .sort((a, b) => b.value - a.value || b.tiebreak - a.tiebreak || a.userId.localeCompare(b.userId))
+    .map((score, index) => ({ ...score, rank: index + 1 }));
+
+  const myIndex = options.userId ? ranked.findIndex(s => s.userId === options.userId) : -1;
+  return {
+    top: ranked.slice(0, options.limit),
+    me: myIndex >= 0 ? ranked[myIndex] : null,
+    around: myIndex >= 0
+      ? ranked.slice(Math.max(0, myIndex - options.neighbours), myIndex + options.neighbours + 1)
+      : [],
+    totalRanked: ranked.length
+  };
+};
+
+// The global all-time board is ranked by the database so it never loads
+// every user: by XP, with ties in a stable order by id. Users without XP
+// aren't ranked, except the caller, who comes after everyone who has some.
+const rankByExperience = async ({ userId, limit, neighbours }: LeaderboardOptions): Promise<Ranking> => {
+  const hasExperience = { experience: { gt: 0 } };
+  const order: Prisma.UserOrderByWithRelationInput[] = [{ experience: 'desc' }, { id: 'asc' }];
+  const select = { id: true, experience: true } as const;
+  const toScore = (user: { id: string; experience: number }, rank: number) =>
+    ({ userId: user.id, value: user.experience, tiebreak: 0, rank });
+
+  const top = await prisma.user.findMany({ where: hasExperience, orderBy: order, take: limit, select });
+  const rankedCount = await prisma.user.count({ where: hasExperience });
+  const caller = userId ? await prisma.user.findUnique({ where: { id: userId }, select }) : null;
+
+  const ranking = {
+    top: top.map((user, index) => toScore(user, index + 1)),
+    totalRanked: rankedCount + (caller && caller.experience === 0 ? 1 : 0)
+  };
+  if (!caller) return { ...ranking, me: null, around: [] };
+
+  const above: Prisma.UserWhereInput = {
+    ...hasExperience,
+    OR: [
+      { experience: { gt: caller.experience } },
+      { experience: caller.experience, id: { lt: caller.id } }
+    ]
+  };
+  const below: Prisma.UserWhereInput = {
+    ...hasExperience,
+    OR: [
+      { experience: { lt: caller.experience } },
+      { experience: caller.experience, id: { gt: caller.id } }
+    ]
+  };
+
+  const rank = await prisma.user.count({ where: above }) + 1;
+  const before = await prisma.user.findMany({
+    where: above,
+    orderBy: [{ experience: 'asc' }, { id: 'desc' }],
+    take: neighbours,
+    select
+  });
+  const after = await prisma.user.findMany({ where: below, orderBy: order, take: neighbours, select });
+
+  const me = toScore(caller, rank);
+  return {
+    ...ranking,
+    me,
+    around: [
+      ...before.reverse().map((user, index) => toScore(user, rank - before.length + index)),
+      me,
+      ...after.map((user, index) => toScore(user, rank + index + 1))
+    ]
+  };
+};
+
+interface ScoreRow {
+  userId: string;
+  value: number;
+  tiebreak: number;
+}
+
+// Period and language boards are ranked by the database from a query giving
+// each user's ("userId", value, tiebreak), in the same order as rankScores.
+// Only users with a score are ranked; a caller without one but who belongs
+// on the board (`callerBelongs`) comes after everyone else.
+const rankInDatabase = async (
+  scores: Prisma.Sql,
+  callerBelongs: boolean,
+  { userId, limit, neighbours }: LeaderboardOptions
+): Promise<Ranking> => {
+  const ranked = Prisma.sql`SELECT * FROM (${scores}) scores WHERE value > 0`;
+  const page = async (offset: number, take: number) => {
+    const rows = await prisma.$queryRaw<ScoreRow[]>`
+      ${ranked}
+      ORDER BY value DESC, tiebreak DESC, "userId" ASC
+      LIMIT ${take} OFFSET ${offset}`;
+    return rows.map((row, index) => ({
+      userId: row.userId,
+      value: Number(row.value),
+      tiebreak: Number(row.tiebreak),
+      rank: offset + index + 1
+    }));
+  };
+
+  const top = await page(0, limit);
+  const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`SELECT COUNT(*) AS count FROM (${ranked}) ranked`;
+  const rankedCount = Number(count);
+  if (!userId) return { top, me: null, around: [], totalRanked: rankedCount };
+
+  const [mine] = await prisma.$queryRaw<ScoreRow[]>`SELECT * FROM (${ranked}) ranked WHERE "userId" = ${userId}`;
+  if (!mine) {
+    if (!callerBelongs) return { top, me: null, around: [], totalRanked: rankedCount };
+    const me = { userId, value: 0, tiebreak: 0, rank: rankedCount + 1 };
+    const before = await page(Math.max(0, rankedCount - neighbours), neighbours);
+    return { top, me, around: [...before, me], totalRanked: rankedCount + 1 };
+  }
+
+  const value = Number(mine.value);
+  const tiebreak = Number(mine.tiebreak);
+  const [{ count: above }] = await prisma.$queryRaw<{ count: bigint }[]>`
+    SELECT COUNT(*) AS count FROM (${ranked}) ranked
+    WHERE value > ${value}
+      OR (value = ${value} AND tiebreak > ${tiebreak})
+      OR (value = ${value} AND tiebreak = ${tiebreak} AND "userId" < ${userId})`;
+  const rank = Number(above) + 1;
+
+  const start = Math.max(0, rank - 1 - neighbours);
+  return {
+    top,
+    me: { userId, value, tiebreak, rank },
+    around: await page(start, rank - start + neighbours),
+    totalRanked: rankedCount
+  };
+};
+
+// XP earned in the period, per user
+const experienceSinceQuery = (since: Date) => Prisma.sql`
+  SELECT "userId", SUM(amount)::int AS value, 0 AS tiebreak
+  FROM experience_events
+  WHERE "createdAt" >= ${since}
+  GROUP BY "userId"`;
+
+// Completed lessons and their total score, per active learner
+const languageProgressQuery = (languageId: string) => Prisma.sql`
+  SELECT e."userId", COUNT(p.id)::int AS value, COALESCE(SUM(p.score), 0)::int AS tiebreak
+  FROM enrollments e
+  LEFT JOIN progress p ON p."enrollmentId" = e.id AND p.completed
+  WHERE e."languageId" = ${languageId} AND e."isActive"
+  GROUP BY e."userId"`;
+
+// Rank users for a board and return the top entries plus the caller's own
+// position with the entries around it
+export const getLeaderboard = async (options: LeaderboardOptions) => {
+  const userIds = options.friendsOf ? await getFriendIds(options.friendsOf) : undefined;
+
+  let ranking: Ranking;
+  if (userIds && options.languageId) {
+    ranking = rankScores(await getLanguageScores(options.languageId, userIds), options, userIds);
+  } else if (userIds) {
+    ranking = rankScores(await getExperienceScores(options.period, userIds), options, userIds);
+  } else if (options.languageId) {
+    const enrolled = options.userId
+      ? await prisma.enrollment.count({
+          where: { userId: options.userId, languageId: options.languageId, isActive: true }
+        })
+      : 0;
+    ranking = await rankInDatabase(languageProgressQuery(options.languageId), enrolled > 0, options);
+  } else if (options.period === 'all') {
+    ranking = await rankByExperience(options);
+  } else {
+    const since = periodStart(options.period)!;
+    ranking = await rankInDatabase(experienceSinceQuery(since), !!options.userId, options);
+  }
+  const { top, me, around, totalRanked } = ranking;
+
+  const shownIds = [...new Set([...top, ...around].map(s => s.userId))];
+  const users = await prisma.user.findMany({
+    where: { id: { in: shownIds } },
+    select: {
+      id: true,
+      username: true,
+      level: true,
+      experience: true,
+      ...streakSelect,
+      _count: {
+        select: {
+          achievements: true
+        }
+      }
+    }
+  });
+
+  const toEntry = (score: RankedScore) => {
+    const user = users.find(u => u.id === score.userId)!;
+    return {
+      rank: score.rank,
+      username: user.username,
+      level: user.level,
+      experience: user.experience,
+      streak: getStreakStatus(user).streak,
+      achievementCount: user._count.achievements,
+      score: score.value,
+      isMe: score.userId === options.userId
+    };
+  };
+
+  return {
+    leaderboard: top.map(toEntry),
+    me: me ? toEntry(me) : null,
+    neighbours: around.map(toEntry),
+    totalRanked
+  };
+};
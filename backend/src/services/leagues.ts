@@ -0,0 +1,234 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { getExperienceSince, periodStart } from './leaderboards';
+
+export const LEAGUE_TIERS = [
+  { tier: 0, name: 'Bronze', icon: '🥉' },
+  { tier: 1, name: 'Silver', icon: '🥈' },
+  { tier: 2, name: 'Gold', icon: '🥇' },
+  { tier: 3, name: 'Sapphire', icon: '🔷' },
+  { tier: 4, name: 'Ruby', icon: '🔴' },
+  { tier: 5, name: 'Emerald', icon: '💚' },
+  { tier: 6, name: 'Amethyst', icon: '🟣' },
+  { tier: 7, name: 'Pearl', icon: '⚪' },
+  { tier: 8, name: 'Obsidian', icon: '⚫' },
+  { tier: 9, name: 'Diamond', icon: '💎' }
+];
+
+export const COHORT_SIZE = 30;
+export const PROMOTION_SPOTS = 7;
+export const RELEGATION_SPOTS = 5;
+
+const TOP_TIER = LEAGUE_TIERS.length - 1;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const currentWeekStart = (now: Date = new Date()) => periodStart('week', now)!;
+
+export const getTierInfo = (tier: number) =>
+  LEAGUE_TIERS[Math.min(Math.max(tier, 0), TOP_TIER)];
+
+type Zone = 'promotion' | 'relegation' | 'safe';
+
+// Spots shrink with the cohort so a small one doesn't promote everybody;
+// cohorts under 5 members promote no one
+const spotsFor = (spots: number, size: number) => Math.floor(size * spots / COHORT_SIZE);
+
+const zoneForRank = (rank: number, size: number, tier: number): Zone => {
+  if (tier < TOP_TIER && rank <= spotsFor(PROMOTION_SPOTS, size)) return 'promotion';
+  if (tier > 0 && rank > size - spotsFor(RELEGATION_SPOTS, size)) return 'relegation';
+  return 'safe';
+};
+
+// Put the user in a cohort for this week at their current tier, filling
+// existing cohorts before opening a new one. Users join on their first XP
+// of the week, so idle accounts never take up league spots.
+export const joinCurrentLeague = async (userId: string) => {
+  const weekStart = currentWeekStart();
+
+  const existing = await prisma.leagueMembership.findUnique({
+    where: { userId_weekStart: { userId, weekStart } }
+  });
+  if (existing) return existing;
+
+  // Settle last week first so the user starts this one at their new tier,
+  // even if the weekly rollover hasn't run yet
+  const unsettled = await prisma.leagueMembership.findMany({
+    where: { userId, weekStart: { lt: weekStart }, cohort: { processedAt: null } },
+    select: { cohortId: true }
+  });
+  for (const { cohortId } of unsettled) {
+    await rolloverCohort(cohortId);
+  }
+
+  try {
+    return await prisma.$transaction(async tx => {
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { leagueTier: true }
+      });
+      if (!user) return null;
+
+      // Taking a spot only succeeds while the cohort still has room, so
+      // concurrent joins can't overfill it
+      let cohortId: string | null = null;
+      while (!cohortId) {
+        const openCohort = await tx.leagueCohort.findFirst({
+          where: {
+            weekStart,
+            tier: user.leagueTier,
+            memberCount: { lt: COHORT_SIZE }
+          },
+          orderBy: { createdAt: 'asc' },
+          select: { id: true }
+        });
+
+        if (!openCohort) {
+          cohortId = (await tx.leagueCohort.create({
+            data: { weekStart, tier: user.leagueTier, memberCount: 1 }
+          })).id;
+          continue;
+        }
+
+        const { count } = await tx.leagueCohort.updateMany({
+          where: { id: openCohort.id, memberCount: { lt: COHORT_SIZE } },
+          data: { memberCount: { increment: 1 } }
+        });
+        if (count > 0) cohortId = openCohort.id;
+      }
+
+      return tx.leagueMembership.create({
+        data: { cohortId, userId, weekStart }
+      });
+    });
+  } catch (error) {
+    // A concurrent request joined first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.leagueMembership.findUnique({
+        where: { userId_weekStart: { userId, weekStart } }
+      });
+    }
+    throw error;
+  }
+};
+
+// Members of a cohort ranked by XP earned during its week
+export const getCohortStandings = async (cohortId: string) => {
+  const cohort = await prisma.leagueCohort.findUnique({
+    where: { id: cohortId },
+    include: {
+      members: {
+        select: {
+          userId: true,
+          finalRank: true,
+          experience: true,
+          outcome: true,
+          user: {
+            select: { username: true, level: true, avatar: true }
+          }
+        }
+      }
+    }
+  });
+  if (!cohort) return null;
+
+  // Finished weeks use the XP frozen at rollover. Until then only XP from
+  // the cohort's own week counts, however late the rollover runs.
+  const weekEnd = new Date(cohort.weekStart.getTime() + WEEK_MS);
+  const liveExperience = cohort.processedAt
+    ? null
+    : await getExperienceSince(cohort.weekStart, cohort.members.map(m => m.userId), weekEnd);
+
+  const standings = cohort.members
+    .map(member => ({
+      userId: member.userId,
+      username: member.user.username,
+      level: member.user.level,
+      avatar: member.user.avatar,
+      experience: liveExperience ? liveExperience.get(member.userId) ?? 0 : member.experience,
+      outcome: member.outcome
+    }))
+    .sort((a, b) => b.experience - a.experience || a.username.localeCompare(b.username))
+    .map((member, index, all) => ({
+      ...member,
+      rank: index + 1,
+      zone: zoneForRank(index + 1, all.length, cohort.tier)
+    }));
+
+  return {
+    id: cohort.id,
+    tier: getTierInfo(cohort.tier),
+    weekStart: cohort.weekStart,
+    weekEnd,
+    processedAt: cohort.processedAt,
+    promotionSpots: cohort.tier < TOP_TIER ? spotsFor(PROMOTION_SPOTS, standings.length) : 0,
+    relegationSpots: cohort.tier > 0 ? spotsFor(RELEGATION_SPOTS, standings.length) : 0,
+    standings
+  };
+};
+
+type Outcome = 'promoted' | 'relegated' | 'stayed';
+
+// Freeze a finished cohort's XP and ranks, then promote the top and relegate
+// the bottom. The cohort is claimed in the same transaction, so it's only
+// processed once when rollovers overlap. Returns each member's outcome, or
+// null if it was already processed.
+const rolloverCohort = async (id: string) => {
+  const cohort = await getCohortStandings(id);
+  if (!cohort || cohort.processedAt) return null;
+  if (cohort.weekEnd.getTime() > Date.now()) {
+    throw new Error('Cannot roll over a week that has not finished');
+  }
+
+  const tier = cohort.tier.tier;
+  const outcomes: Outcome[] = cohort.standings.map(member =>
+    member.zone === 'promotion' ? 'promoted' : member.zone === 'relegation' ? 'relegated' : 'stayed'
+  );
+
+  return prisma.$transaction(async tx => {
+    const { count } = await tx.leagueCohort.updateMany({
+      where: { id, processedAt: null },
+      data: { processedAt: new Date() }
+    });
+    if (count === 0) return null;
+
+    for (const [index, member] of cohort.standings.entries()) {
+      const outcome = outcomes[index];
+      const newTier = outcome === 'promoted' ? tier + 1 : outcome === 'relegated' ? tier - 1 : tier;
+
+      await tx.leagueMembership.update({
+        where: { userId_weekStart: { userId: member.userId, weekStart: cohort.weekStart } },
+        data: { experience: member.experience, finalRank: member.rank, outcome }
+      });
+      await tx.user.update({
+        where: { id: member.userId },
+        data: { leagueTier: newTier }
+      });
+    }
+
+    return outcomes;
+  });
+};
+
+// Close out every unprocessed cohort from a finished week
+export const rolloverLeagues = async (weekStart: Date) => {
+  if (weekStart.getTime() + WEEK_MS > Date.now()) {
+    throw new Error('Cannot roll over a week that has not finished');
+  }
+
+  const cohorts = await prisma.leagueCohort.findMany({
+    where: { weekStart, processedAt: null },
+    select: { id: true }
+  });
+
+  const summary = { cohorts: 0, promoted: 0, relegated: 0, stayed: 0 };
+
+  for (const { id } of cohorts) {
+    const outcomes = await rolloverCohort(id);
+    if (!outcomes) continue;
+
+    outcomes.forEach(outcome => { summary[outcome] += 1; });
+    summary.cohorts += 1;
+  }
+
+  return summary;
+};
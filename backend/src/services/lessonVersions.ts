@@ -0,0 +1,349 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { ExercisePair, readPairs } from './grading';
+
+// Lesson content as stored in a LessonVersion snapshot
+export interface VersionedExercise {
+  id: string;
+  key: string | null;
+  type: string;
+  question: string;
+  correctAnswer: string;
+  acceptedAnswers: string[];
+  options: string[];
+  tokens: string[];
+  distractors: string[];
+  pairs: ExercisePair[];
+  explanation: string | null;
+  audioId: string | null;
+  slowAudioId: string | null;
+  points: number;
+  isActive: boolean;
+}
+
+export interface LessonContent {
+  title: string;
+  description: string | null;
+  difficulty: string;
+  exercises: VersionedExercise[];
+}
+
+export interface ContentChange {
+  field: string; // e.g. title, exercises.<id>.question
+  before: unknown;
+  after: unknown;
+}
+
+export type NewExercise = Omit<VersionedExercise, 'id'>;
+
+export const EMPTY_LESSON_CONTENT: LessonContent = {
+  title: '',
+  description: null,
+  difficulty: 'beginner',
+  exercises: []
+};
+
+const LESSON_FIELDS = ['title', 'description', 'difficulty'] as const;
+const EXERCISE_FIELDS = [
+  'key', 'type', 'question', 'correctAnswer', 'acceptedAnswers',
+  'options', 'tokens', 'distractors', 'pairs', 'explanation', 'audioId', 'slowAudioId', 'points',
+  'isActive'
+] as const;
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const toJson = (content: LessonContent) => content as unknown as Prisma.InputJsonObject;
+
+export const readContent = (content: Prisma.JsonValue) => content as unknown as LessonContent;
+
+export const newExerciseId = () => randomUUID();
+
+// Current live content of a lesson, inactive exercises included
+export const snapshotLesson = async (client: Prisma.TransactionClient, lessonId: string) => {
+  const lesson = await client.lesson.findUnique({
+    where: { id: lessonId },
+    include: {
+      exercises: { orderBy: { order: 'asc' } }
+    }
+  });
+  if (!lesson) return null;
+
+  const content: LessonContent = {
+    title: lesson.title,
+    description: lesson.description,
+    difficulty: lesson.difficulty,
+    exercises: lesson.exercises.map(exercise => ({
+      id: exercise.id,
+      key: exercise.key,
+      type: exercise.type,
+      question: exercise.question,
+      correctAnswer: exercise.correctAnswer,
+      acceptedAnswers: exercise.acceptedAnswers,
+      options: exercise.options,
+      tokens: exercise.tokens,
+      distractors: exercise.distractors,
+      pairs: readPairs(exercise.pairs),
+      explanation: exercise.explanation,
+      audioId: exercise.audioId,
+      slowAudioId: exercise.slowAudioId,
+      points: exercise.points,
+      isActive: exercise.isActive
+    }))
+  };
+  return content;
+};
+
+// Field-level changes between two versions of a lesson's content
+export const diffLessonContent = (before: LessonContent, after: LessonContent) => {
+  const changes: ContentChange[] = [];
+
+  for (const field of LESSON_FIELDS) {
+    if (!isSame(before[field], after[field])) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+
+  const previous = new Map(before.exercises.map(e => [e.id, e]));
+  const currentIds = new Set(after.exercises.map(e => e.id));
+
+  for (const exercise of after.exercises) {
+    const old = previous.get(exercise.id);
+    if (!old) {
+      changes.push({ field: `exercises.${exercise.id}`, before: null, after: exercise });
+      continue;
+    }
+    for (const field of EXERCISE_FIELDS) {
+      if (!isSame(old[field], exercise[field])) {
+        changes.push({ field: `exercises.${exercise.id}.${field}`, before: old[field], after: exercise[field] });
+      }
+    }
+  }
+
+  for (const old of before.exercises) {
+    if (!currentIds.has(old.id)) {
+      changes.push({ field: `exercises.${old.id}`, before: old, after: null });
+    }
+  }
+
+  // Only report reordering of exercises present in both versions
+  const beforeOrder = before.exercises.map(e => e.id).filter(id => currentIds.has(id));
+  const afterOrder = after.exercises.map(e => e.id).filter(id => previous.has(id));
+  if (!isSame(beforeOrder, afterOrder)) {
+    changes.push({ field: 'exercises.order', before: beforeOrder, after: afterOrder });
+  }
+
+  return changes;
+};
+
+// Make the live lesson and exercise rows match the content. Exercises left
+// out are deactivated rather than deleted, keeping learners' attempts, and
+// give up their keys so new exercises can reuse them.
+const applyLessonContent = async (tx: Prisma.TransactionClient, lessonId: string, content: LessonContent) => {
+  await tx.lesson.update({
+    where: { id: lessonId },
+    data: {
+      title: content.title,
+      description: content.description,
+      difficulty: content.difficulty
+    }
+  });
+
+  // Keys are unique per lesson, so clear them all first; otherwise two
+  // exercises swapping keys would clash halfway through
+  await tx.exercise.updateMany({
+    where: { lessonId, key: { not: null } },
+    data: { key: null }
+  });
+
+  for (const [index, { id, ...exercise }] of content.exercises.entries()) {
+    // Versions saved before these fields existed don't have them
+    const data = {
+      ...exercise,
+      tokens: exercise.tokens ?? [],
+      distractors: exercise.distractors ?? [],
+      pairs: exercise.pairs ?? [],
+      audioId: exercise.audioId ?? null,
+      slowAudioId: exercise.slowAudioId ?? null,
+      order: index + 1
+    };
+    await tx.exercise.upsert({
+      where: { id },
+      update: data,
+      create: { ...data, id, lessonId }
+    });
+  }
+
+  await tx.exercise.updateMany({
+    where: {
+      lessonId,
+      id: { notIn: content.exercises.map(e => e.id) }
+    },
+    data: { isActive: false }
+  });
+};
+
+interface PublishOptions {
+  authorId: string | null;
+  draftId?: string;
+  rolledBackFrom?: number;
+}
+
+// Store `after` as the lesson's next published version and point the
+// lesson at it. Must run inside the transaction that changed the content.
+export const recordPublishedVersion = async (
+  tx: Prisma.TransactionClient,
+  lessonId: string,
+  before: LessonContent,
+  after: LessonContent,
+  { authorId, draftId, rolledBackFrom }: PublishOptions
+) => {
+  const latest = await tx.lessonVersion.aggregate({
+    where: { lessonId },
+    _max: { version: true }
+  });
+  const version = (latest._max.version ?? 0) + 1;
+
+  const data = {
+    version,
+    status: 'published',
+    content: toJson(after),
+    changes: diffLessonContent(before, after) as unknown as Prisma.InputJsonArray,
+    authorId,
+    rolledBackFrom,
+    publishedAt: new Date()
+  };
+
+  const published = draftId
+    ? await tx.lessonVersion.update({ where: { id: draftId }, data })
+    : await tx.lessonVersion.create({ data: { ...data, lessonId } });
+
+  await tx.lesson.update({
+    where: { id: lessonId },
+    data: { publishedVersion: version }
+  });
+
+  return published;
+};
+
+export const getDraft = (lessonId: string) =>
+  prisma.lessonVersion.findFirst({
+    where: { lessonId, status: 'draft' }
+  });
+
+// The lesson's draft, started from its live content if there is none yet
+export const getOrCreateDraft = async (lessonId: string, authorId: string) => {
+  const draft = await getDraft(lessonId);
+  if (draft) return draft;
+
+  const content = await snapshotLesson(prisma, lessonId);
+  if (!content) return null;
+
+  return prisma.lessonVersion.create({
+    data: { lessonId, authorId, content: toJson(content) }
+  });
+};
+
+const DRAFT_EDIT_ATTEMPTS = 3;
+
+// Apply an edit to the lesson's draft. The edit returns the new content,
+// or an error message when the change isn't possible. The draft is only
+// saved if nobody changed it since it was read; otherwise the edit is
+// applied again to the newer content.
+export const editDraft = async (
+  lessonId: string,
+  authorId: string,
+  edit: (content: LessonContent) => LessonContent | { error: string }
+) => {
+  for (let attempt = 0; attempt < DRAFT_EDIT_ATTEMPTS; attempt++) {
+    const draft = await getOrCreateDraft(lessonId, authorId);
+    if (!draft) return { error: 'Lesson not found' };
+
+    const content = edit(readContent(draft.content));
+    if ('error' in content) return content;
+
+    const { count } = await prisma.lessonVersion.updateMany({
+      where: { id: draft.id, status: 'draft', updatedAt: draft.updatedAt },
+      data: { content: toJson(content), authorId }
+    });
+    if (count > 0) {
+      return prisma.lessonVersion.findUniqueOrThrow({ where: { id: draft.id } });
+    }
+  }
+  return { error: 'The draft kept changing while saving, please try again' };
+};
+
+// Swap the lesson's live content for its draft in one transaction
+export const publishDraft = (lessonId: string, authorId: string) =>
+  prisma.$transaction(async tx => {
+    const draft = await tx.lessonVersion.findFirst({
+      where: { lessonId, status: 'draft' }
+    });
+    if (!draft) return { error: 'No draft to publish' };
+
+    const before = (await snapshotLesson(tx, lessonId))!;
+    const content = readContent(draft.content);
+
+    await applyLessonContent(tx, lessonId, content);
+    return recordPublishedVersion(tx, lessonId, before, content, { authorId, draftId: draft.id });
+  });
+
+// Make an earlier published version live again. The restored content is
+// published as a new version so history stays append-only.
+export const rollbackLesson = (lessonId: string, version: number, authorId: string) =>
+  prisma.$transaction(async tx => {
+    const lesson = await tx.lesson.findUnique({
+      where: { id: lessonId },
+      select: { publishedVersion: true }
+    });
+    if (!lesson) return { error: 'Lesson not found' };
+
+    const target = await tx.lessonVersion.findUnique({
+      where: { lessonId_version: { lessonId, version } }
+    });
+    if (!target || target.status !== 'published') {
+      return { error: 'Version not found' };
+    }
+    if (lesson.publishedVersion === version) {
+      return { error: 'This version is already live' };
+    }
+
+    const before = (await snapshotLesson(tx, lessonId))!;
+    const content = readContent(target.content);
+
+    await applyLessonContent(tx, lessonId, content);
+    return recordPublishedVersion(tx, lessonId, before, content, { authorId, rolledBackFrom: version });
+  });
+
+// Learners who started a lesson just before a new version went live can
+// still submit against the version they started for this long
+export const PREVIOUS_VERSION_GRACE_MS = 60 * 60 * 1000;
+
+// Exercises of an earlier published version, for grading learners who
+// started the lesson before the current version went live. Only the version
+// live immediately before the current one is accepted, and only within the
+// grace period, so older or easier versions can't be picked to grade against.
+export const getVersionExercises = async (
+  lesson: { id: string; publishedVersion: number | null },
+  version: number
+) => {
+  const expired = { error: 'This version of the lesson is no longer live, please start it again' };
+  if (lesson.publishedVersion === null || version >= lesson.publishedVersion) return expired;
+
+  const live = await prisma.lessonVersion.findUnique({
+    where: { lessonId_version: { lessonId: lesson.id, version: lesson.publishedVersion } },
+    select: { publishedAt: true }
+  });
+  if (!live?.publishedAt || Date.now() - live.publishedAt.getTime() > PREVIOUS_VERSION_GRACE_MS) {
+    return expired;
+  }
+
+  const previous = await prisma.lessonVersion.findFirst({
+    where: { lessonId: lesson.id, status: 'published', version: { lt: lesson.publishedVersion } },
+    orderBy: { version: 'desc' },
+    select: { version: true, content: true }
+  });
+  if (!previous || previous.version !== version) return expired;
+
+  return { exercises: readContent(previous.content).exercises.filter(e => e.isActive) };
+};
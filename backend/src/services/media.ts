@@ -0,0 +1,69 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../db';
+import { ByteRange, getStorage } from './storage';
+
+// Accepted upload types and the extension they're stored with
+export const AUDIO_TYPES: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac'
+};
+
+export const mediaUrl = (id: string) => `/api/media/${id}`;
+
+// Store an audio file. Generated speech passes the cache key it's found by.
+export const saveAudio = async (data: Buffer, contentType: string, cacheKey: string | null = null) => {
+  const storageKey = `audio/${randomUUID()}.${AUDIO_TYPES[contentType]}`;
+  await getStorage().save(storageKey, data);
+
+  return prisma.mediaAsset.create({
+    data: { storageKey, contentType, size: data.length, cacheKey }
+  });
+};
+
+// Parse a single-range "bytes=" header. Returns null when the whole file
+// should be sent and 'invalid' when the range can't be satisfied.
+export const parseRange = (header: string | undefined, size: number): ByteRange | null | 'invalid' => {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return 'invalid';
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start > end || start >= size) return 'invalid';
+  return { start, end };
+};
+
+// Exercise fields for lesson payloads: the attached clips, never storage details
+export const exerciseAudioSelect = {
+  audioId: true,
+  slowAudioId: true
+} as const;
+
+// Swap attached audio ids for playable URLs
+export const withAudio = <T extends { audioId: string | null; slowAudioId: string | null }>({
+  audioId,
+  slowAudioId,
+  ...exercise
+}: T) => ({
+  ...exercise,
+  audio: audioId || slowAudioId
+    ? {
+        url: audioId ? mediaUrl(audioId) : null,
+        slowUrl: slowAudioId ? mediaUrl(slowAudioId) : null
+      }
+    : null
+});
@@ -0,0 +1,86 @@
+import { prisma } from '../db';
+import { ExerciseResult } from './grading';
+import { exercisePayloadSelect } from './exercisePayload';
+import { unscorableExerciseTypes } from './speaking';
+
+// Correct answers in a row needed before a mistake leaves the list
+export const MISTAKE_CLEAR_STREAK = 2;
+
+// Add wrong answers to the user's mistakes list and count correct answers
+// towards clearing exercises already on it
+export const recordMistakeResults = async (userId: string, results: ExerciseResult[]) => {
+  const answered = results.filter(r => r.submittedAnswer !== null);
+  if (answered.length === 0) return;
+
+  const now = new Date();
+  const existing = await prisma.mistake.findMany({
+    where: { userId, exerciseId: { in: answered.map(r => r.exerciseId) } }
+  });
+
+  for (const result of answered) {
+    const mistake = existing.find(m => m.exerciseId === result.exerciseId);
+
+    if (!result.isCorrect) {
+      await prisma.mistake.upsert({
+        where: {
+          userId_exerciseId: {
+            userId,
+            exerciseId: result.exerciseId
+          }
+        },
+        update: {
+          correctStreak: 0,
+          missCount: { increment: 1 },
+          lastMissedAt: now
+        },
+        create: {
+          userId,
+          exerciseId: result.exerciseId,
+          lastMissedAt: now
+        }
+      });
+    } else if (mistake) {
+      if (mistake.correctStreak + 1 >= MISTAKE_CLEAR_STREAK) {
+        await prisma.mistake.delete({ where: { id: mistake.id } });
+      } else {
+        await prisma.mistake.update({
+          where: { id: mistake.id },
+          data: { correctStreak: { increment: 1 } }
+        });
+      }
+    }
+  }
+};
+
+// Most recently missed exercises in a language
+export const getMistakes = (userId: string, languageId: string, limit: number) =>
+  prisma.mistake.findMany({
+    where: {
+      userId,
+      exercise: {
+        isActive: true,
+        type: { notIn: unscorableExerciseTypes() },
+        lesson: { languageId, isActive: true }
+      }
+    },
+    select: {
+      correctStreak: true,
+      missCount: true,
+      lastMissedAt: true,
+      exercise: {
+        select: {
+          id: true,
+          type: true,
+          question: true,
+          options: true,
+          points: true,
+          ...exercisePayloadSelect,
+          lesson: {
+            select: { id: true, title: true }
+          }
+        }
+      }
+    },
+    orderBy: { lastMissedAt: 'desc' },
+    take: limit
+  });
@@ -0,0 +1,241 @@
+import { Enrollment, PlacementTest } from '@prisma/client';
+import { prisma } from '../db';
+import { Answer, ExerciseResult, gradeExercise, gradingSelect } from './grading';
+import { getCourseLessons } from './curriculum';
+import { exercisePayloadSelect, toExercisePayload } from './exercisePayload';
+import { resolveSpeakingAnswers, unscorableExerciseTypes } from './speaking';
+
+// Same fields the lesson payload exposes, never the answer key
+const questionSelect = {
+  id: true,
+  type: true,
+  question: true,
+  options: true,
+  points: true,
+  ...exercisePayloadSelect
+} as const;
+
+// Each probed lesson asks up to three of its exercises and needs two right
+// to pass, so a single lucky guess can't skip a stretch of the course
+const PROBE_QUESTIONS = 3;
+const PROBE_CORRECT_TO_PASS = 2;
+
+// At most this many tests, finished or not, per enrollment in the window
+const PLACEMENT_TEST_LIMIT = 2;
+const PLACEMENT_TEST_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const getProbeExerciseIds = async (lessonId: string) => {
+  const exercises = await prisma.exercise.findMany({
+    where: { lessonId, isActive: true, type: { notIn: unscorableExerciseTypes() } },
+    select: { id: true }
+  });
+  return exercises.map(exercise => exercise.id);
+};
+
+const pickRandom = (ids: string[]) =>
+  ids.length > 0 ? ids[Math.floor(Math.random() * ids.length)] : null;
+
+// Narrow the search until we find a lesson with something to ask, or the
+// bounds meet. Lessons without exercises can't be tested, so they're passed.
+const findNextProbe = async (
+  lessons: { id: string; difficulty: string }[],
+  lowerBound: number,
+  upperBound: number
+) => {
+  let low = lowerBound;
+  while (low < upperBound) {
+    const mid = Math.floor((low + upperBound) / 2);
+    const exerciseId = pickRandom(await getProbeExerciseIds(lessons[mid].id));
+    if (exerciseId) {
+      return { lowerBound: low, lessonIndex: mid, exerciseId };
+    }
+    low = mid + 1;
+  }
+  return { lowerBound: low, lessonIndex: null, exerciseId: null };
+};
+
+export const getPlacementQuestion = async (test: PlacementTest) => {
+  if (!test.currentExerciseId) return null;
+
+  const exercise = await prisma.exercise.findUnique({
+    where: { id: test.currentExerciseId },
+    select: {
+      ...questionSelect,
+      lesson: { select: { difficulty: true } }
+    }
+  });
+  if (!exercise) return null;
+
+  const { lesson, ...question } = exercise;
+  return { ...toExercisePayload(question), difficulty: lesson.difficulty };
+};
+
+// Mark every lesson below the final lower bound as tested out and move the
+// enrollment level up to match. Lessons already completed are left alone.
+const finishPlacementTest = async (
+  test: PlacementTest,
+  enrollment: Enrollment,
+  lessons: { id: string }[],
+  lowerBound: number
+) => {
+  const testedOutLessons = lessons.slice(0, lowerBound);
+  const now = new Date();
+
+  if (testedOutLessons.length > 0) {
+    await prisma.progress.createMany({
+      data: testedOutLessons.map(lesson => ({
+        userId: test.userId,
+        lessonId: lesson.id,
+        enrollmentId: enrollment.id,
+        completed: true,
+        testedOut: true,
+        completedAt: now
+      })),
+      skipDuplicates: true
+    });
+
+    await prisma.progress.updateMany({
+      where: {
+        userId: test.userId,
+        lessonId: { in: testedOutLessons.map(l => l.id) },
+        completed: false
+      },
+      data: { completed: true, testedOut: true, completedAt: now }
+    });
+  }
+
+  await prisma.enrollment.update({
+    where: { id: enrollment.id },
+    data: { level: Math.max(enrollment.level, testedOutLessons.length + 1) }
+  });
+
+  return prisma.placementTest.update({
+    where: { id: test.id },
+    data: {
+      status: 'completed',
+      lowerBound,
+      upperBound: lowerBound,
+      currentLessonIndex: null,
+      currentExerciseId: null,
+      lessonsTestedOut: testedOutLessons.length,
+      completedAt: now
+    }
+  });
+};
+
+export const startPlacementTest = async (
+  enrollment: Enrollment
+): Promise<PlacementTest | { error: string }> => {
+  // Abandoned tests still count, so restarting can't be used to fish for
+  // easier questions
+  const recentTests = await prisma.placementTest.count({
+    where: {
+      enrollmentId: enrollment.id,
+      createdAt: { gte: new Date(Date.now() - PLACEMENT_TEST_WINDOW_MS) }
+    }
+  });
+  if (recentTests >= PLACEMENT_TEST_LIMIT) {
+    return { error: 'Placement test limit reached, try again later' };
+  }
+
+  // Only one test runs at a time per enrollment
+  await prisma.placementTest.updateMany({
+    where: { enrollmentId: enrollment.id, status: 'in_progress' },
+    data: { status: 'abandoned', currentLessonIndex: null, currentExerciseId: null }
+  });
+
+  const lessons = await getCourseLessons(enrollment.languageId);
+  const probe = await findNextProbe(lessons, 0, lessons.length);
+
+  const test = await prisma.placementTest.create({
+    data: {
+      userId: enrollment.userId,
+      enrollmentId: enrollment.id,
+      lowerBound: probe.lowerBound,
+      upperBound: lessons.length,
+      currentLessonIndex: probe.lessonIndex,
+      currentExerciseId: probe.exerciseId
+    }
+  });
+
+  if (!probe.exerciseId) {
+    return finishPlacementTest(test, enrollment, lessons, probe.lowerBound);
+  }
+  return test;
+};
+
+export const answerPlacementQuestion = async (
+  test: PlacementTest,
+  enrollment: Enrollment,
+  answer: Answer
+): Promise<{ test: PlacementTest; result: ExerciseResult | null }> => {
+  if (test.currentExerciseId === null || test.currentLessonIndex === null) {
+    return { test, result: null };
+  }
+
+  const exercise = await prisma.exercise.findUnique({
+    where: { id: test.currentExerciseId },
+    select: gradingSelect
+  });
+  const [resolved] = exercise
+    ? await resolveSpeakingAnswers(test.userId, [exercise], [{ exerciseId: exercise.id, answer }])
+    : [];
+  const result = exercise ? gradeExercise(exercise, resolved?.answer) : null;
+  const isCorrect = result?.isCorrect ?? false;
+
+  const lessons = await getCourseLessons(enrollment.languageId);
+  const lesson = lessons[test.currentLessonIndex];
+  const available = lesson ? await getProbeExerciseIds(lesson.id) : [];
+
+  const asked = [...test.probeExerciseIds, test.currentExerciseId];
+  const probeCorrectCount = test.probeCorrectCount + (isCorrect ? 1 : 0);
+  const probeSize = Math.min(PROBE_QUESTIONS, available.length);
+  const needed = Math.min(PROBE_CORRECT_TO_PASS, probeSize);
+  const passed = probeSize > 0 && probeCorrectCount >= needed;
+  const failed = asked.length - probeCorrectCount > probeSize - needed;
+  const nextExerciseId = pickRandom(available.filter(id => !asked.includes(id)));
+
+  // Keep asking about the same lesson until it's decided
+  if (!passed && !failed && nextExerciseId) {
+    const updated = await prisma.placementTest.update({
+      where: { id: test.id },
+      data: {
+        currentExerciseId: nextExerciseId,
+        probeExerciseIds: asked,
+        probeCorrectCount,
+        questionCount: { increment: 1 },
+        correctCount: { increment: isCorrect ? 1 : 0 }
+      }
+    });
+    return { test: updated, result };
+  }
+
+  // Passing proves every lesson up to the probed one; failing means the
+  // learner should start no later than it
+  const lowerBound = passed ? test.currentLessonIndex + 1 : test.lowerBound;
+  const upperBound = passed ? test.upperBound : test.currentLessonIndex;
+
+  const probe = await findNextProbe(lessons, lowerBound, Math.min(upperBound, lessons.length));
+
+  const updated = await prisma.placementTest.update({
+    where: { id: test.id },
+    data: {
+      lowerBound: probe.lowerBound,
+      upperBound,
+      currentLessonIndex: probe.lessonIndex,
+      currentExerciseId: probe.exerciseId,
+      probeExerciseIds: [],
+      probeCorrectCount: 0,
+      questionCount: { increment: 1 },
+      correctCount: { increment: isCorrect ? 1 : 0 }
+    }
+  });
+
+  if (!probe.exerciseId) {
+    return {
+      test: await finishPlacementTest(updated, enrollment, lessons, probe.lowerBound),
+      result
+    };
+  }
+  return { test: updated, result };
+};
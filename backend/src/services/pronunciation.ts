@@ -0,0 +1,60 @@
+export interface Recording {
+  data: Buffer;
+  contentType: string;
+  language: string; // course language code, e.g. es
+  expected: string; // the phrase the learner was asked to say
+}
+
+export interface RecognizedSpeech {
+  transcript: string;
+  pronunciationScore: number | null; // 0-1, for scorers that rate pronunciation
+}
+
+// Speech recognition, optionally with pronunciation scoring. Grading
+// compares the transcript with the expected phrase.
+export interface SpeechScorer {
+  name: string;
+  recognize(recording: Recording): Promise<RecognizedSpeech>;
+}
+
+// Reads the recording's bytes as UTF-8 text and returns that as the
+// transcript. The same recording always gets the same result, so tests can
+// exercise speaking without a recognizer. Anyone can pass with it by
+// uploading the expected phrase as text, so it is never picked by default
+// outside tests.
+export const createStubScorer = (): SpeechScorer => ({
+  name: 'stub',
+  recognize: async ({ data }) => ({
+    transcript: data.toString('utf8').trim(),
+    pronunciationScore: null
+  })
+});
+
+const scorers: Record<string, () => SpeechScorer> = {
+  stub: createStubScorer
+};
+
+// Make a real recognizer selectable through SPEECH_SCORER
+export const registerSpeechScorer = (name: string, create: () => SpeechScorer) => {
+  scorers[name] = create;
+};
+
+let scorer: SpeechScorer | null | undefined;
+
+// The scorer named by SPEECH_SCORER, the stub under NODE_ENV=test, or null
+// when none is configured and speaking can't be graded
+export const getSpeechScorer = () => {
+  if (scorer === undefined) {
+    const name = process.env.SPEECH_SCORER || (process.env.NODE_ENV === 'test' ? 'stub' : '');
+    if (!name) {
+      scorer = null;
+    } else {
+      const create = scorers[name];
+      if (!create) {
+        throw new Error(`Unknown SPEECH_SCORER: ${name}`);
+      }
+      scorer = create();
+    }
+  }
+  return scorer;
+};
@@ -0,0 +1,67 @@
+import { prisma } from '../db';
+import { SubmittedAnswer } from './grading';
+import { getSpeechScorer } from './pronunciation';
+
+export const isSpeechScoringEnabled = () => getSpeechScorer() !== null;
+
+// Without a speech scorer speaking exercises can't be answered, so they are
+// left out of lessons, practice and placement rather than always failing
+export const withoutUnscorableExercises = <T extends { type: string }>(exercises: T[]) =>
+  isSpeechScoringEnabled() ? exercises : exercises.filter(e => e.type !== 'speaking');
+
+export const unscorableExerciseTypes = () => isSpeechScoringEnabled() ? [] : ['speaking'];
+
+// Run a learner's recording through the speech scorer and keep what it heard
+export const scoreRecording = async (
+  userId: string,
+  exercise: { id: string; correctAnswer: string; language: string },
+  data: Buffer,
+  contentType: string
+) => {
+  const scorer = getSpeechScorer();
+  if (!scorer) return { error: 'Speech scoring is not configured' };
+
+  const { transcript, pronunciationScore } = await scorer.recognize({
+    data,
+    contentType,
+    language: exercise.language,
+    expected: exercise.correctAnswer
+  });
+
+  return prisma.speechRecording.create({
+    data: { userId, exerciseId: exercise.id, transcript, pronunciationScore },
+    select: { id: true, transcript: true, pronunciationScore: true, createdAt: true }
+  });
+};
+
+// Answers to speaking exercises name one of the learner's recordings. Swap
+// each for the recording's transcript so grading only ever sees what the
+// scorer heard; answers without a matching recording are dropped and
+// count as unanswered.
+export const resolveSpeakingAnswers = async (
+  userId: string,
+  exercises: { id: string; type: string }[],
+  answers: SubmittedAnswer[]
+): Promise<SubmittedAnswer[]> => {
+  const speaking = new Set(exercises.filter(e => e.type === 'speaking').map(e => e.id));
+  if (speaking.size === 0) return answers;
+
+  const recordingIds = answers
+    .filter(a => speaking.has(a.exerciseId) && typeof a.answer === 'string')
+    .map(a => a.answer as string);
+
+  const recordings = await prisma.speechRecording.findMany({
+    where: { id: { in: recordingIds }, userId },
+    select: { id: true, exerciseId: true, transcript: true }
+  });
+  const byId = new Map(recordings.map(r => [r.id, r]));
+
+  return answers.flatMap(answer => {
+    if (!speaking.has(answer.exerciseId)) return [answer];
+
+    const recording = typeof answer.answer === 'string' ? byId.get(answer.answer) : undefined;
+    return recording && recording.exerciseId === answer.exerciseId
+      ? [{ ...answer, answer: recording.transcript }]
+      : [];
+  });
+};
@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { saveAudio } from './media';
+import { getTtsProvider, SpeechRequest, TtsProvider, voiceFor } from './tts';
+
+// Exercise types that get generated audio in the course language. Listening
+// and speaking exercises have their answer read aloud: hearing it is the
+// task, or the model to repeat. Translation exercises have their question
+// read, the sentence to translate, so the answer isn't given away. Only
+// listening exercises also get a slow variant. Other types never get
+// generated audio.
+export const SPOKEN_EXERCISE_TYPES = ['listening', 'speaking', 'translation'];
+const QUESTION_SPOKEN_TYPES = ['translation'];
+export const SLOW_SPEECH_RATE = 0.6;
+
+export interface SpeechSummary {
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+const cacheKeyFor = (tts: TtsProvider, { text, language, voice, rate }: SpeechRequest) =>
+  createHash('sha256')
+    .update(JSON.stringify([tts.name, language, voice, rate, text]))
+    .digest('hex');
+
+// Audio for the request, synthesized only the first time the same text is
+// asked for in the same language, voice and speed
+export const getSpeech = async (tts: TtsProvider, request: SpeechRequest) => {
+  const cacheKey = cacheKeyFor(tts, request);
+
+  const cached = await prisma.mediaAsset.findUnique({ where: { cacheKey } });
+  if (cached) return cached;
+
+  const { data, contentType } = await tts.synthesize(request);
+  return saveAudio(data, contentType, cacheKey);
+};
+
+const exerciseSelect = {
+  id: true,
+  type: true,
+  question: true,
+  correctAnswer: true,
+  audio: { select: { id: true, cacheKey: true } },
+  slowAudio: { select: { id: true, cacheKey: true } },
+  lesson: {
+    select: { language: { select: { code: true } } }
+  }
+} as const;
+
+type SpokenExercise = Prisma.ExerciseGetPayload<{ select: typeof exerciseSelect }>;
+
+const spokenText = (exercise: SpokenExercise) =>
+  (QUESTION_SPOKEN_TYPES.includes(exercise.type) ? exercise.question : exercise.correctAnswer).trim();
+
+// Audio an editor uploaded has no cache key and is always kept
+const speechFor = async (
+  tts: TtsProvider,
+  current: { id: string; cacheKey: string | null } | null,
+  request: SpeechRequest
+) => {
+  if (current && !current.cacheKey) return current.id;
+  return (await getSpeech(tts, request)).id;
+};
+
+// Point the exercise at audio for its current text. When the text changes
+// the cache key does too, so new audio is generated; rolling back to old
+// text finds the old audio in the cache.
+const syncExerciseSpeech = async (tts: TtsProvider, exercise: SpokenExercise) => {
+  const language = exercise.lesson.language.code;
+  const request = {
+    text: spokenText(exercise),
+    language,
+    voice: voiceFor(tts, language),
+    rate: 1
+  };
+
+  const audioId = await speechFor(tts, exercise.audio, request);
+  const slowAudioId = exercise.type === 'listening'
+    ? await speechFor(tts, exercise.slowAudio, { ...request, rate: SLOW_SPEECH_RATE })
+    : exercise.slowAudio?.id ?? null;
+
+  if (audioId === exercise.audio?.id && slowAudioId === (exercise.slowAudio?.id ?? null)) {
+    return false;
+  }
+
+  // Generated audio follows the live text, so it's attached to the live
+  // exercise directly rather than through a lesson draft
+  await prisma.exercise.update({
+    where: { id: exercise.id },
+    data: { audioId, slowAudioId }
+  });
+  return true;
+};
+
+const generateSpeech = async (where: Prisma.ExerciseWhereInput): Promise<SpeechSummary | null> => {
+  const tts = getTtsProvider();
+  if (!tts) return null;
+
+  const exercises = await prisma.exercise.findMany({
+    where: {
+      ...where,
+      isActive: true,
+      OR: [
+        { type: { in: SPOKEN_EXERCISE_TYPES, notIn: QUESTION_SPOKEN_TYPES }, correctAnswer: { not: '' } },
+        { type: { in: QUESTION_SPOKEN_TYPES }, question: { not: '' } }
+      ]
+    },
+    select: exerciseSelect,
+    orderBy: [{ lessonId: 'asc' }, { order: 'asc' }]
+  });
+
+  const summary: SpeechSummary = { updated: 0, unchanged: 0, failed: 0 };
+
+  // Drop generated audio from exercises that are no longer a spoken type
+  const unspoken = { ...where, type: { notIn: SPOKEN_EXERCISE_TYPES } };
+  const cleared = await prisma.exercise.updateMany({
+    where: { ...unspoken, audio: { cacheKey: { not: null } } },
+    data: { audioId: null }
+  });
+  await prisma.exercise.updateMany({
+    where: { ...unspoken, slowAudio: { cacheKey: { not: null } } },
+    data: { slowAudioId: null }
+  });
+  summary.updated += cleared.count;
+
+  for (const exercise of exercises) {
+    try {
+      if (await syncExerciseSpeech(tts, exercise)) {
+        summary.updated += 1;
+      } else {
+        summary.unchanged += 1;
+      }
+    } catch (error) {
+      console.error(`Generate speech error (exercise ${exercise.id}):`, error);
+      summary.failed += 1;
+    }
+  }
+
+  return summary;
+};
+
+// Bring generated audio in line with a lesson's live exercises, e.g. after
+// publishing. Returns null when TTS is turned off.
+export const generateLessonSpeech = (lessonId: string) =>
+  generateSpeech({ lessonId });
+
+export const generateLanguageSpeech = (languageId?: string) =>
+  generateSpeech(languageId ? { lesson: { languageId } } : {});
@@ -0,0 +1,150 @@
+import { Prisma, ReviewItem } from '@prisma/client';
+import { prisma } from '../db';
+import { ExerciseResult, MatchType } from './grading';
+import { exercisePayloadSelect } from './exercisePayload';
+import { unscorableExerciseTypes } from './speaking';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// SM-2 recall quality (0-5) derived from how the answer matched
+const QUALITY_BY_MATCH: Record<MatchType, number> = {
+  exact: 5,
+  accents: 4,
+  typo: 3,
+  none: 1
+};
+
+export const qualityForResult = (result: Pick<ExerciseResult, 'matchType'>) =>
+  QUALITY_BY_MATCH[result.matchType];
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  interval: number; // in days
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+}
+
+// SM-2: failed recalls restart the interval, successful ones grow it by the
+// item's ease factor, which itself drifts with answer quality
+export const scheduleReview = (
+  current: Pick<ReviewItem, 'easeFactor' | 'interval' | 'repetitions' | 'lapses'>,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule => {
+  let { repetitions, interval, lapses } = current;
+
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * current.easeFactor);
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    easeFactor,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS)
+  };
+};
+
+const NEW_ITEM = { easeFactor: 2.5, interval: 0, repetitions: 0, lapses: 0 };
+
+// Feed graded answers (from a lesson or a practice session) into the
+// user's review schedule, creating items for exercises seen the first time
+export const recordReviewResults = async (userId: string, results: ExerciseResult[]) => {
+  const answered = results.filter(r => r.submittedAnswer !== null);
+  if (answered.length === 0) return;
+
+  const existing = await prisma.reviewItem.findMany({
+    where: { userId, exerciseId: { in: answered.map(r => r.exerciseId) } }
+  });
+  const now = new Date();
+
+  for (const result of answered) {
+    const item = existing.find(i => i.exerciseId === result.exerciseId);
+    const schedule = scheduleReview(item ?? NEW_ITEM, qualityForResult(result), now);
+
+    await prisma.reviewItem.upsert({
+      where: {
+        userId_exerciseId: {
+          userId,
+          exerciseId: result.exerciseId
+        }
+      },
+      update: { ...schedule, lastReviewedAt: now },
+      create: {
+        userId,
+        exerciseId: result.exerciseId,
+        ...schedule,
+        lastReviewedAt: now
+      }
+    });
+  }
+};
+
+// Review items due now in the user's active enrollments that can be answered
+export const dueReviewItemWhere = (userId: string, languageId?: string): Prisma.ReviewItemWhereInput => ({
+  userId,
+  dueAt: { lte: new Date() },
+  exercise: {
+    isActive: true,
+    type: { notIn: unscorableExerciseTypes() },
+    lesson: {
+      isActive: true,
+      ...(languageId && { languageId }),
+      language: {
+        enrollments: { some: { userId, isActive: true } }
+      }
+    }
+  }
+});
+
+// Due review items across all of a user's active enrollments, most overdue
+// first, then shuffled so a session mixes languages and lessons
+export const getDueReviewItems = async (userId: string, limit: number, languageId?: string) => {
+  const items = await prisma.reviewItem.findMany({
+    where: dueReviewItemWhere(userId, languageId),
+    select: {
+      dueAt: true,
+      exercise: {
+        select: {
+          id: true,
+          type: true,
+          question: true,
+          options: true,
+          points: true,
+          ...exercisePayloadSelect,
+          lesson: {
+            select: {
+              id: true,
+              title: true,
+              language: { select: { id: true, name: true, code: true } }
+            }
+          }
+        }
+      }
+    },
+    orderBy: { dueAt: 'asc' },
+    take: limit
+  });
+
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+
+  return items;
+};
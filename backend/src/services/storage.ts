@@ -0,0 +1,73 @@
+import { createReadStream } from 'fs';
+import { mkdir, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Where media bytes are kept. Keys are relative paths such as
+// audio/<id>.mp3; metadata lives in the database.
+export interface MediaStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  size(key: string): Promise<number | null>;
+  read(key: string, range?: ByteRange): Readable;
+  remove(key: string): Promise<void>;
+}
+
+// Files under a directory on the local disk
+export const createLocalStorage = (root: string): MediaStorage => {
+  const base = path.resolve(root);
+  const resolve = (key: string) => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(base + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    save: async (key, data) => {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    size: async key => {
+      try {
+        return (await stat(resolve(key))).size;
+      } catch {
+        return null;
+      }
+    },
+    read: (key, range) => createReadStream(resolve(key), range),
+    remove: async key => {
+      await unlink(resolve(key)).catch(() => undefined);
+    }
+  };
+};
+
+const drivers: Record<string, () => MediaStorage> = {
+  local: () => createLocalStorage(process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), 'storage', 'media'))
+};
+
+// Make another backend selectable through MEDIA_STORAGE
+export const registerStorageDriver = (name: string, create: () => MediaStorage) => {
+  drivers[name] = create;
+};
+
+let storage: MediaStorage | null = null;
+
+export const getStorage = () => {
+  if (!storage) {
+    const name = process.env.MEDIA_STORAGE || 'local';
+    const create = drivers[name];
+    if (!create) {
+      throw new Error(`Unknown MEDIA_STORAGE driver: ${name}`);
+    }
+    storage = create();
+  }
+  return storage;
+};
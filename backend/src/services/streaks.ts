@@ -0,0 +1,340 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ActivityKind = 'lesson' | 'practice';
+
+// Streak freezes: one is earned every FREEZE_EARN_INTERVAL streak days, more
+// can be bought with XP, and a user can hold at most MAX_STREAK_FREEZES
+export const MAX_STREAK_FREEZES = 2;
+export const FREEZE_EARN_INTERVAL = 7;
+export const FREEZE_COST = 50;
+
+// A broken streak can be repaired for a fee within a few days of breaking
+export const REPAIR_COST = 100;
+export const REPAIR_WINDOW_DAYS = 2;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar day (YYYY-MM-DD) of an instant in the given time zone
+export const localDateKey = (date: Date, timeZone: string) => {
+  const safeZone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: safeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+};
+
+// Whole days between two YYYY-MM-DD keys
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+export const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+
+export interface StreakState {
+  streak: number;
+  longestStreak: number;
+  lastActiveDate: string | null;
+  streakFreezes: number;
+  brokenStreak: number | null;
+  brokenStreakDate: string | null;
+}
+
+export interface SettledStreak extends StreakState {
+  frozenDates: string[];
+}
+
+export const streakSelect = {
+  streak: true,
+  longestStreak: true,
+  lastActiveDate: true,
+  streakFreezes: true,
+  brokenStreak: true,
+  brokenStreakDate: true,
+  timezone: true
+} as const;
+
+// Apply any days missed since the last active day: cover them with freezes
+// if there are enough, otherwise break the streak and remember it so it can
+// be repaired. Pure, so reads can show the outcome without saving it.
+export const settleMissedDays = (state: StreakState, today: string): SettledStreak => {
+  const settled: SettledStreak = { ...state, frozenDates: [] };
+  if (!state.lastActiveDate || state.streak === 0) return settled;
+
+  const missed = daysBetween(state.lastActiveDate, today) - 1;
+  if (missed <= 0) return settled;
+
+  if (missed <= state.streakFreezes) {
+    for (let i = 1; i <= missed; i++) {
+      settled.frozenDates.push(addDays(state.lastActiveDate, i));
+    }
+    settled.streakFreezes -= missed;
+    settled.lastActiveDate = addDays(today, -1);
+    return settled;
+  }
+
+  settled.brokenStreak = state.streak;
+  settled.brokenStreakDate = addDays(state.lastActiveDate, 1);
+  settled.streak = 0;
+  return settled;
+};
+
+export const canRepairStreak = (state: StreakState, today: string) =>
+  state.brokenStreak !== null &&
+  state.brokenStreakDate !== null &&
+  daysBetween(state.brokenStreakDate, today) <= REPAIR_WINDOW_DAYS;
+
+const streakData = (settled: StreakState) => ({
+  streak: settled.streak,
+  longestStreak: settled.longestStreak,
+  lastActiveDate: settled.lastActiveDate,
+  streakFreezes: settled.streakFreezes,
+  brokenStreak: settled.brokenStreak,
+  brokenStreakDate: settled.brokenStreakDate
+});
+
+const recordFrozenDates = async (client: Prisma.TransactionClient, userId: string, dates: string[]) => {
+  if (dates.length > 0) {
+    await client.streakFreezeUsage.createMany({
+      data: dates.map(date => ({ userId, date, kind: 'freeze' }))
+    });
+  }
+};
+
+// As an update condition, matches only if the stored streak is still the one
+// that was read, so a concurrent write isn't silently overwritten
+const streakAsRead = (user: StreakState) => ({
+  streak: user.streak,
+  lastActiveDate: user.lastActiveDate,
+  streakFreezes: user.streakFreezes,
+  brokenStreak: user.brokenStreak,
+  brokenStreakDate: user.brokenStreakDate
+});
+
+const STREAK_UPDATE_ATTEMPTS = 3;
+
+// Extend the streak for a new active day. Returns null if the streak changed
+// after it was read, e.g. a freeze was bought, so the caller can try again.
+const extendStreak = (userId: string) =>
+  prisma.$transaction(async tx => {
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: streakSelect
+    });
+    const today = localDateKey(new Date(), user.timezone);
+
+    if (user.lastActiveDate === today) {
+      return { streak: user.streak, extended: false, freezesUsed: 0 };
+    }
+
+    const settled = settleMissedDays(user, today);
+    const continues = settled.lastActiveDate !== null &&
+      settled.streak > 0 &&
+      daysBetween(settled.lastActiveDate, today) === 1;
+
+    settled.streak = continues ? settled.streak + 1 : 1;
+    settled.longestStreak = Math.max(settled.longestStreak, settled.streak);
+    settled.lastActiveDate = today;
+
+    if (settled.streak % FREEZE_EARN_INTERVAL === 0) {
+      settled.streakFreezes = Math.min(MAX_STREAK_FREEZES, settled.streakFreezes + 1);
+    }
+
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, ...streakAsRead(user) },
+      data: streakData(settled)
+    });
+    if (count === 0) return null;
+
+    await recordFrozenDates(tx, userId, settled.frozenDates);
+
+    return {
+      streak: settled.streak,
+      extended: true,
+      freezesUsed: settled.frozenDates.length
+    };
+  });
+
+// Count a completed lesson or practice session towards today's activity and
+// extend the streak the first time the user is active on a new local day
+export const recordActivity = async (userId: string, kind: ActivityKind, experience: number) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true }
+  });
+
+  if (!user) return null;
+
+  const today = localDateKey(new Date(), user.timezone);
+
+  await prisma.activityDay.upsert({
+    where: {
+      userId_date: {
+        userId,
+        date: today
+      }
+    },
+    update: {
+      lessonsCompleted: { increment: kind === 'lesson' ? 1 : 0 },
+      practiceSessions: { increment: kind === 'practice' ? 1 : 0 },
+      experience: { increment: experience }
+    },
+    create: {
+      userId,
+      date: today,
+      lessonsCompleted: kind === 'lesson' ? 1 : 0,
+      practiceSessions: kind === 'practice' ? 1 : 0,
+      experience
+    }
+  });
+
+  for (let attempt = 0; attempt < STREAK_UPDATE_ATTEMPTS; attempt++) {
+    const result = await extendStreak(userId);
+    if (result) return result;
+  }
+  throw new Error(`Streak for user ${userId} kept changing during the update`);
+};
+
+const getSpendableExperience = (user: { experience: number; spentExperience: number }) =>
+  user.experience - user.spentExperience;
+
+// Spending tracks XP separately so lifetime experience and level never drop.
+// As an update condition, this only matches if nothing else was spent since
+// the balance was read and it still covers the amount, so concurrent
+// purchases can't spend the same XP twice.
+const canStillSpend = (user: { spentExperience: number }, amount: number) => ({
+  spentExperience: user.spentExperience,
+  experience: { gte: user.spentExperience + amount }
+});
+
+const SPEND_CONFLICT = 'Your XP balance changed, please try again';
+
+export const buyStreakFreeze = (userId: string) =>
+  prisma.$transaction(async tx => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { streakFreezes: true, experience: true, spentExperience: true }
+    });
+
+    if (!user) return { error: 'User not found' };
+    if (user.streakFreezes >= MAX_STREAK_FREEZES) {
+      return { error: `You can hold at most ${MAX_STREAK_FREEZES} streak freezes` };
+    }
+    if (getSpendableExperience(user) < FREEZE_COST) {
+      return { error: 'Not enough XP' };
+    }
+
+    const { count } = await tx.user.updateMany({
+      where: {
+        id: userId,
+        streakFreezes: { lt: MAX_STREAK_FREEZES },
+        ...canStillSpend(user, FREEZE_COST)
+      },
+      data: {
+        streakFreezes: { increment: 1 },
+        spentExperience: { increment: FREEZE_COST }
+      }
+    });
+    if (count === 0) return { error: SPEND_CONFLICT };
+
+    return {
+      streakFreezes: user.streakFreezes + 1,
+      spendableExperience: getSpendableExperience(user) - FREEZE_COST
+    };
+  });
+
+export const repairStreak = (userId: string) =>
+  prisma.$transaction(async tx => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { ...streakSelect, experience: true, spentExperience: true }
+    });
+
+    if (!user) return { error: 'User not found' };
+
+    const today = localDateKey(new Date(), user.timezone);
+    const settled = settleMissedDays(user, today);
+
+    if (!canRepairStreak(settled, today)) {
+      return { error: 'There is no broken streak to repair' };
+    }
+    if (getSpendableExperience(user) < REPAIR_COST) {
+      return { error: 'Not enough XP' };
+    }
+
+    // Any days earned since the break are added on top of the old streak, and
+    // the gap is bridged up to yesterday so today's activity extends it
+    const restored = settled.brokenStreak! + settled.streak;
+    const repairedFrom = settled.brokenStreakDate!;
+
+    settled.streak = restored;
+    settled.longestStreak = Math.max(settled.longestStreak, restored);
+    settled.lastActiveDate = settled.lastActiveDate === today ? today : addDays(today, -1);
+    settled.brokenStreak = null;
+    settled.brokenStreakDate = null;
+
+    // The streak must also be as it was read, so the same break can't be
+    // repaired twice
+    const { count } = await tx.user.updateMany({
+      where: {
+        id: userId,
+        ...streakAsRead(user),
+        ...canStillSpend(user, REPAIR_COST)
+      },
+      data: {
+        ...streakData(settled),
+        spentExperience: { increment: REPAIR_COST }
+      }
+    });
+    if (count === 0) return { error: SPEND_CONFLICT };
+
+    await recordFrozenDates(tx, userId, settled.frozenDates);
+    await tx.streakFreezeUsage.create({
+      data: { userId, date: repairedFrom, kind: 'repair' }
+    });
+
+    return { streak: restored };
+  });
+
+// A user's stored streak fields swapped for the current streak and record,
+// so a streak that lapsed since the last activity no longer shows
+export const withCurrentStreak = <T extends StreakState & { timezone: string }>(user: T) => {
+  const { lastActiveDate, streakFreezes, brokenStreak, brokenStreakDate, ...rest } = user;
+  const { streak, longestStreak } = getStreakStatus(user);
+  return { ...rest, streak, longestStreak };
+};
+
+// Current streak as of now without touching the database
+export const getStreakStatus = (user: StreakState & { timezone: string }) => {
+  const today = localDateKey(new Date(), user.timezone);
+  const settled = settleMissedDays(user, today);
+
+  return {
+    streak: settled.streak,
+    longestStreak: settled.longestStreak,
+    activeToday: settled.lastActiveDate === today,
+    lastActiveDate: user.lastActiveDate,
+    streakFreezes: settled.streakFreezes,
+    freezesPendingUse: settled.frozenDates.length,
+    repair: canRepairStreak(settled, today)
+      ? {
+          streak: settled.brokenStreak,
+          cost: REPAIR_COST,
+          expiresOn: addDays(settled.brokenStreakDate!, REPAIR_WINDOW_DAYS)
+        }
+      : null,
+    today,
+    timezone: user.timezone
+  };
+};
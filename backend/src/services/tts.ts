@@ -0,0 +1,90 @@
+import { spawn } from 'child_process';
+
+export interface SpeechRequest {
+  text: string;
+  language: string; // course language code, e.g. es
+  voice: string;
+  rate: number; // 1 is normal speed
+}
+
+export interface SynthesizedSpeech {
+  data: Buffer;
+  contentType: string;
+}
+
+// Turns text into audio. The name is part of the cache key, so audio from
+// one provider is never reused for another.
+export interface TtsProvider {
+  name: string;
+  defaultVoice(language: string): string;
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
+
+const ESPEAK_WORDS_PER_MINUTE = 160;
+
+// eSpeak NG runs locally with no network access and ships voices for every
+// seeded language. Text goes in on stdin and a WAV file comes out on stdout.
+export const createEspeakProvider = (command: string): TtsProvider => ({
+  name: 'espeak',
+  defaultVoice: language => language,
+  synthesize: ({ text, voice, rate }) =>
+    new Promise((resolve, reject) => {
+      const speed = Math.round(ESPEAK_WORDS_PER_MINUTE * rate);
+      const child = spawn(command, ['-v', voice, '-s', String(speed), '--stdin', '--stdout']);
+      const chunks: Buffer[] = [];
+      let stderr = '';
+
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', error => {
+        reject(new Error(`Could not run ${command}: ${error.message}`));
+      });
+      child.on('close', code => {
+        if (code !== 0) {
+          return reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+        }
+        const data = Buffer.concat(chunks);
+        if (data.length === 0) {
+          return reject(new Error(`${command} produced no audio for voice ${voice}`));
+        }
+        resolve({ data, contentType: 'audio/wav' });
+      });
+
+      // If the engine exits before reading its input, 'close' reports why
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(text);
+    })
+});
+
+const providers: Record<string, () => TtsProvider> = {
+  espeak: () => createEspeakProvider(process.env.TTS_ESPEAK_PATH || 'espeak-ng')
+};
+
+// Make another engine selectable through TTS_PROVIDER
+export const registerTtsProvider = (name: string, create: () => TtsProvider) => {
+  providers[name] = create;
+};
+
+let provider: TtsProvider | null | undefined;
+
+// The configured provider, or null when TTS_PROVIDER=none turns generation off
+export const getTtsProvider = () => {
+  if (provider === undefined) {
+    const name = process.env.TTS_PROVIDER || 'espeak';
+    if (name === 'none') {
+      provider = null;
+    } else {
+      const create = providers[name];
+      if (!create) {
+        throw new Error(`Unknown TTS_PROVIDER: ${name}`);
+      }
+      provider = create();
+    }
+  }
+  return provider;
+};
+
+// Voice for a language: TTS_VOICE_<CODE> (e.g. TTS_VOICE_PT=pt-br) or the
+// provider's default
+export const voiceFor = (tts: TtsProvider, language: string) =>
+  process.env[`TTS_VOICE_${language.toUpperCase()}`] || tts.defaultVoice(language);
@@ -0,0 +1,97 @@
+import { prisma } from '../db';
+import { getCourseLessons } from './curriculum';
+import { unscorableExerciseTypes } from './speaking';
+
+// Minimum share of a lesson's points needed to unlock the next one,
+// overridable per difficulty, e.g. PASS_THRESHOLD_ADVANCED=0.9
+const DEFAULT_PASS_THRESHOLDS: Record<string, number> = {
+  beginner: 0.6,
+  intermediate: 0.7,
+  advanced: 0.8
+};
+
+export const DIFFICULTIES = Object.keys(DEFAULT_PASS_THRESHOLDS);
+
+export const getPassThreshold = (difficulty: string) => {
+  const override = process.env[`PASS_THRESHOLD_${difficulty.toUpperCase()}`];
+  if (override !== undefined && !Number.isNaN(Number(override))) {
+    return Number(override);
+  }
+  return DEFAULT_PASS_THRESHOLDS[difficulty] ?? DEFAULT_PASS_THRESHOLDS.beginner;
+};
+
+export const isPassingScore = (score: number, totalPoints: number, difficulty: string) => {
+  if (totalPoints <= 0) return true;
+  return score / totalPoints >= getPassThreshold(difficulty);
+};
+
+export interface LessonUnlockState {
+  lessonId: string;
+  isUnlocked: boolean;
+  isPassed: boolean;
+  isCompleted: boolean;
+}
+
+// Work out which lessons in a language a user can take. The first lesson is
+// always open; every other lesson opens once the one before it in course
+// order has been completed with a passing score or tested out of. A unit's
+// checkpoint comes after its lessons, so passing it opens the next unit.
+export const getLessonUnlockStates = async (
+  userId: string | null,
+  languageId: string,
+  courseLessons?: { id: string; difficulty: string }[]
+): Promise<Map<string, LessonUnlockState>> => {
+  const lessons = courseLessons ?? await getCourseLessons(languageId);
+  const lessonIds = lessons.map(l => l.id);
+
+  // Only what the learner can be graded on counts towards the total
+  const pointTotals = await prisma.exercise.groupBy({
+    by: ['lessonId'],
+    where: { lessonId: { in: lessonIds }, isActive: true, type: { notIn: unscorableExerciseTypes() } },
+    _sum: { points: true }
+  });
+
+  const progress = userId
+    ? await prisma.progress.findMany({
+        where: { userId, lessonId: { in: lessonIds }, completed: true },
+        select: { lessonId: true, score: true, testedOut: true }
+      })
+    : [];
+
+  // A retry with a lower score shouldn't lock the next lesson again
+  const bestAttempts = userId
+    ? await prisma.lessonAttempt.groupBy({
+        by: ['lessonId'],
+        where: { userId, lessonId: { in: lessonIds } },
+        _max: { score: true }
+      })
+    : [];
+
+  const states = new Map<string, LessonUnlockState>();
+  let previousPassed = true;
+
+  for (const lesson of lessons) {
+    const lessonProgress = progress.find(p => p.lessonId === lesson.id);
+    const bestAttempt = bestAttempts.find(a => a.lessonId === lesson.id);
+    const totalPoints = pointTotals.find(t => t.lessonId === lesson.id)?._sum.points ?? 0;
+    const bestScore = Math.max(lessonProgress?.score ?? 0, bestAttempt?._max.score ?? 0);
+    const isPassed = !!lessonProgress && (
+      lessonProgress.testedOut || isPassingScore(bestScore, totalPoints, lesson.difficulty)
+    );
+
+    states.set(lesson.id, {
+      lessonId: lesson.id,
+      isUnlocked: previousPassed,
+      isPassed,
+      isCompleted: !!lessonProgress
+    });
+    previousPassed = isPassed;
+  }
+
+  return states;
+};
+
+export const isLessonUnlocked = async (userId: string, lessonId: string, languageId: string) => {
+  const states = await getLessonUnlockStates(userId, languageId);
+  return states.get(lessonId)?.isUnlocked ?? false;
+};